@@ -1,29 +1,148 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { CellData, CellState, Difficulty, GameStatus, AIHint } from './types';
-import { createEmptyBoard, placeMines, revealCell, checkWin, revealAllMines } from './gameEngine';
-import MineCell from './components/MineCell';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { CellData, CellRef, CellState, Difficulty, GameStatus, AIHint, HintMove, HintSettings, TopologyId } from './types';
+import { DIFFICULTIES, getMinePositions } from './gameEngine';
+import { GameSnapshot, MinesweeperGame } from './game';
+import MineCell, { describeCell } from './components/MineCell';
 import LEDDisplay from './components/LEDDisplay';
-import { getAIHint } from './services/geminiService';
-import { Sparkles, HelpCircle } from 'lucide-react';
-
-// Difficulty Presets
-const DIFFICULTIES: Record<string, Difficulty> = {
-  BEGINNER: { name: '初级', rows: 9, cols: 9, mines: 10 },
-  INTERMEDIATE: { name: '中级', rows: 16, cols: 16, mines: 40 },
-  EXPERT: { name: '高级', rows: 16, cols: 30, mines: 99 },
-};
+import ReplayViewer from './components/ReplayViewer';
+import AnalysisViewer from './components/AnalysisViewer';
+import CoachPanel from './components/CoachPanel';
+import CustomDifficultyDialog from './components/CustomDifficultyDialog';
+import HintSettingsDialog from './components/HintSettingsDialog';
+import StatsPanel from './components/StatsPanel';
+import GameSummary from './components/GameSummary';
+import RaceLobby from './components/RaceLobby';
+import RacePanel from './components/RacePanel';
+import BoardLayout from './components/BoardLayout';
+import BoardFileDialog from './components/BoardFileDialog';
+import TrainingDialog from './components/TrainingDialog';
+import DailyDialog from './components/DailyDialog';
+import CanvasBoard, { CANVAS_MIN_CELLS } from './components/CanvasBoard';
+import ThemeDialog from './components/ThemeDialog';
+import { ThemeContext } from './components/ThemeContext';
+import { HINT_PROVIDERS, loadHintSettings, requestHint, saveHintSettings } from './services/hintProvider';
+import { getSolverHint, hintMoves } from './services/solverService';
+import { deleteCustomPreset, loadCustomPresets, saveCustomPreset } from './services/presetStore';
+import { deleteCustomTheme, findTheme, loadCustomThemes, loadThemeId, saveCustomTheme, saveThemeId } from './services/themeService';
+import { BUILTIN_THEMES, DEFAULT_THEME_ID, Theme, themeVariables } from './theme';
+import { GameRecord, addGameRecord, clearHistory, loadHistory, removeGameRecord } from './services/statsService';
+import { SavedGame, clearSavedGame, loadSavedGame, saveGame } from './services/saveService';
+import { computeProbabilities } from './probability';
+import { DEFAULT_TOPOLOGY, TOPOLOGIES, getTopology } from './topology';
+import { GameCode, codeMatchesDifficulty, decodeGameCode, readGameCodeFromUrl, writeGameCodeToUrl } from './gameCode';
+import { ClickCounts, GameMetrics, computeGameMetrics, emptyClickCounts } from './metrics';
+import { Replay, createReplay, downloadReplay, parseReplay } from './replay';
+import { ANALYSIS_MAX_CELLS } from './analysis';
+import { BoardFile } from './boardFile';
+import { DailyLevel, dailyDate, dailyGameCode, dailyLevelOfCode } from './daily';
+import { DailyRecord, findDailyRecord, finishDailyAttempt, loadDailyRecords, startDailyAttempt } from './services/dailyService';
+import { BOT_STRATEGIES, BotStrategy, chooseBotMove } from './bot';
+import { RaceRoom } from './race';
+import { RaceClient, RaceProfile, loadRaceProfile, saveRaceProfile } from './services/raceClient';
+import { Sparkles, HelpCircle, Percent, Copy, Play, Film, Download, Upload, SlidersHorizontal, BarChart3, Undo2, RotateCcw, Settings, ShieldCheck, Bot, Pause, Swords, FileText, GraduationCap, CalendarDays, Microscope, MessageSquare, ListChecks, Palette } from 'lucide-react';
+
+const difficultyForCode = (code: GameCode): Difficulty => ({
+  ...(Object.values(DIFFICULTIES).find(d => codeMatchesDifficulty(code, { ...d, topology: code.topology })) ??
+    { name: '自定义', rows: code.rows, cols: code.cols, mines: code.mines }),
+  topology: code.topology,
+});
+
+const sameBoard = (a: Difficulty, b: Difficulty) =>
+  a.name === b.name && a.rows === b.rows && a.cols === b.cols && a.mines === b.mines &&
+  (a.topology ?? DEFAULT_TOPOLOGY) === (b.topology ?? DEFAULT_TOPOLOGY);
+
+// Hint rings on the board: certain reveals and flags in their own colours, guesses thinner in amber
+const hintRing = (move: HintMove) =>
+  !move.certain ? 'ring-2 ring-amber-400' : move.action === 'flag' ? 'ring-4 ring-red-500' : 'ring-4 ring-blue-500';
+
+// A code in the address bar (shared link) deals that board on load
+const initialGameCode = readGameCodeFromUrl();
 
 const App: React.FC = () => {
-  const [difficulty, setDifficulty] = useState<Difficulty>(DIFFICULTIES.BEGINNER);
+  const [difficulty, setDifficulty] = useState<Difficulty>(
+    initialGameCode ? difficultyForCode(initialGameCode) : DIFFICULTIES.BEGINNER
+  );
   const [board, setBoard] = useState<CellData[][]>([]);
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.IDLE);
   const [minesLeft, setMinesLeft] = useState<number>(0);
   const [timer, setTimer] = useState<number>(0);
   const [isAiThinking, setIsAiThinking] = useState(false);
   const [aiHint, setAiHint] = useState<AIHint | null>(null);
+  const [showProbabilities, setShowProbabilities] = useState(false);
+  const [noGuessMode, setNoGuessMode] = useState(false);
+  const [useQuestionMarks, setUseQuestionMarks] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [gameCode, setGameCode] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [viewingReplay, setViewingReplay] = useState<Replay | null>(null);
+  const [analyzingReplay, setAnalyzingReplay] = useState<Replay | null>(null);
+  const [showCoach, setShowCoach] = useState(false);
+  const [coachRefs, setCoachRefs] = useState<CellRef[]>([]);
+  const [customPresets, setCustomPresets] = useState<Difficulty[]>(loadCustomPresets);
+  const [showCustomDialog, setShowCustomDialog] = useState(false);
+  const [hintSettings, setHintSettings] = useState<HintSettings>(loadHintSettings);
+  const [showHintSettings, setShowHintSettings] = useState(false);
+  const [showBoardFile, setShowBoardFile] = useState(false);
+  const [showTraining, setShowTraining] = useState(false);
+  const [showDaily, setShowDaily] = useState(false);
+  const [dailyRecords, setDailyRecords] = useState<DailyRecord[]>(loadDailyRecords);
+  const [dailyLevel, setDailyLevel] = useState<DailyLevel>('BEGINNER'); // Level the daily dialog opens on
+  // Autoplay: the hint engine plays through the normal click handlers
+  const [autoplay, setAutoplay] = useState(false);
+  const [botStrategy, setBotStrategy] = useState<BotStrategy>('solver');
+  const [botDelay, setBotDelay] = useState(400);
+  const [history, setHistory] = useState<GameRecord[]>(loadHistory);
+  const [showStats, setShowStats] = useState(false);
+  const [themeId, setThemeId] = useState<string>(loadThemeId);
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes);
+  const [showThemes, setShowThemes] = useState(false);
+  const [gameMetrics, setGameMetrics] = useState<GameMetrics | null>(null);
+  const [practiceMode, setPracticeMode] = useState(false);
+  const [undoCount, setUndoCount] = useState(0);
+  // An unfinished game from a previous visit; a shared link takes precedence over it
+  const [resumeOffer, setResumeOffer] = useState<SavedGame | null>(() => initialGameCode ? null : loadSavedGame());
+  // Keyboard play: the roving cursor, shown while the grid has focus
+  const [cursor, setCursor] = useState<CellRef>({ row: 0, col: 0 });
+  const [gridFocused, setGridFocused] = useState(false);
+  // Text for the screen-reader live region: move results and hints
+  const [announcement, setAnnouncement] = useState('');
+  // Head-to-head race on the local race server
+  const [raceRoom, setRaceRoom] = useState<RaceRoom | null>(null);
+  const [showRaceLobby, setShowRaceLobby] = useState(false);
+  const [raceConnecting, setRaceConnecting] = useState(false);
+  const [raceCountdown, setRaceCountdown] = useState<number | null>(null);
+
+  // Code whose board is dealt by initGame instead of an empty one (cleared on new game)
+  const pendingCodeRef = useRef<GameCode | null>(initialGameCode);
+
+  // The game being played; React state mirrors it through its 'changed' event
+  const gameRef = useRef<MinesweeperGame | null>(null);
+
+  const clickCountsRef = useRef<ClickCounts>(emptyClickCounts());
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  // Set once any hint or the probability overlay helps this game; such games skip the leaderboard
+  const hintsUsedRef = useRef(false);
+
+  // Practice-mode undo (positions just before each move); a game that used it is kept off the leaderboard too
+  const undoStackRef = useRef<GameSnapshot[]>([]);
+  const usedUndoRef = useRef(false);
+  const lastRecordIdRef = useRef<string | null>(null); // History record of the finished game, taken back by undo
+
+  // The race connection, and the game code of the race board (only that game's progress is sent)
+  const raceClientRef = useRef<RaceClient | null>(null);
+  const raceGameCodeRef = useRef<string | null>(null);
 
-  // Fix: Use ReturnType<typeof setInterval> instead of NodeJS.Timer to support browser environments without Node types
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Saved game restored by initGame instead of dealing a new board (cleared on new game)
+  const pendingSaveRef = useRef<SavedGame | null>(null);
+  // Imported board played by initGame instead of a dealt one (cleared on new game)
+  const pendingLayoutRef = useRef<BoardFile | null>(null);
+  // The ranked daily challenge being played; its result is stored when the game ends
+  const dailyAttemptRef = useRef<{ date: string; level: DailyLevel } | null>(null);
+
+  // Counts dealt games, so the clock restarts even when a new game begins while the last one was playing
+  const [gameGeneration, setGameGeneration] = useState(0);
 
   // Draggable Board State
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -34,33 +153,369 @@ const App: React.FC = () => {
 
   // Initialize Board
   const initGame = useCallback(() => {
-    const newBoard = createEmptyBoard(difficulty.rows, difficulty.cols);
-    setBoard(newBoard);
-    setGameStatus(GameStatus.IDLE);
+    // Dealing over an unfinished race board gives that race up, so the others are not left waiting
+    const previous = gameRef.current;
+    if (previous?.status === GameStatus.PLAYING && previous.gameCode !== null && previous.gameCode === raceGameCodeRef.current) {
+      raceClientRef.current?.forfeit();
+      raceGameCodeRef.current = null;
+    }
+
+    const game = new MinesweeperGame({ difficulty });
+    game.on('changed', ({ board, status, minesLeft }) => {
+      setBoard(board);
+      setGameStatus(status);
+      setMinesLeft(minesLeft);
+    });
+    game.on('started', ({ gameCode, notice }) => {
+      setNotice(notice);
+      setGameCode(gameCode);
+      writeGameCodeToUrl(gameCode);
+    });
+    game.on('cellsRevealed', ({ cells }) => {
+      setAiHint(null); // Clear hint on move
+      setAnnouncement(cells.length === 1
+        ? describeCell(game.board[cells[0].row][cells[0].col])
+        : `揭开了 ${cells.length} 个格子。`);
+    });
+    game.on('flagChanged', ({ row, col, minesLeft }) => {
+      setAnnouncement(`${describeCell(game.board[row][col])}，剩余地雷 ${minesLeft}。`);
+    });
+    game.on('won', ({ timeMs }) => setAnnouncement(`胜利！用时 ${(timeMs / 1000).toFixed(1)} 秒。`));
+    game.on('lost', ({ row, col }) => setAnnouncement(`踩到地雷（第 ${row + 1} 行第 ${col + 1} 列），游戏结束。按 N 开始新的一局。`));
+    gameRef.current = game;
+    setGameGeneration(n => n + 1);
+    setCursor(c => ({ row: Math.min(c.row, difficulty.rows - 1), col: Math.min(c.col, difficulty.cols - 1) }));
+
     setMinesLeft(difficulty.mines);
     setTimer(0);
     setAiHint(null);
-    if (timerRef.current) clearInterval(timerRef.current);
+    setCoachRefs([]);
+    setLastReplay(null);
+    setGameMetrics(null);
+    clickCountsRef.current = emptyClickCounts();
+    hintsUsedRef.current = false;
+    undoStackRef.current = [];
+    usedUndoRef.current = false;
+    lastRecordIdRef.current = null;
+    setUndoCount(0);
+
+    const save = pendingSaveRef.current;
+    if (save && sameBoard(save.difficulty, difficulty)) {
+      // Continue where the saved game stopped; the clock resumes from its elapsed time
+      game.restore({
+        board: save.board,
+        status: GameStatus.PLAYING,
+        minesLeft: save.minesLeft,
+        elapsedMs: save.elapsedMs,
+        gameCode: save.gameCode,
+        actions: save.actions,
+      });
+      clickCountsRef.current = { ...emptyClickCounts(), ...save.clicks };
+      hintsUsedRef.current = save.usedHints;
+      usedUndoRef.current = save.usedUndo;
+      setAiHint(save.aiHint);
+      setTimer(Math.floor(save.elapsedMs / 1000));
+      setNotice(null);
+      setGameCode(save.gameCode);
+      writeGameCodeToUrl(save.gameCode);
+      return;
+    }
+
+    const imported = pendingLayoutRef.current;
+    if (imported && sameBoard(imported.difficulty, difficulty)) {
+      // The player has seen this layout, so the game stays off the leaderboard
+      hintsUsedRef.current = true;
+      game.startFromLayout(imported.board);
+      setBoard(game.board);
+      setGameStatus(game.status);
+      setNotice('已载入导入的棋盘。首次点击不保证安全。');
+      setGameCode(null);
+      writeGameCodeToUrl(null);
+      return;
+    }
+
+    const pending = pendingCodeRef.current;
+    if (pending && codeMatchesDifficulty(pending, difficulty)) {
+      // Recreate the shared board and replay its first click
+      clickCountsRef.current = { ...emptyClickCounts(), left: 1, effective: 1 };
+      game.startFromCode(pending);
+      return;
+    }
+
+    setBoard(game.board);
+    setGameStatus(GameStatus.IDLE);
+    setNotice(null);
+    setGameCode(null);
+    writeGameCodeToUrl(null);
   }, [difficulty]);
 
+  // Leaving an unfinished game needs a confirmation (it stays saved until then)
+  const confirmAbandon = () =>
+    gameStatus !== GameStatus.PLAYING || window.confirm('当前对局尚未结束，确定放弃吗？');
+
+  const startNewGame = useCallback(() => {
+    if (!confirmAbandon()) return;
+    pendingCodeRef.current = null;
+    pendingSaveRef.current = null;
+    pendingLayoutRef.current = null;
+    dailyAttemptRef.current = null;
+    initGame();
+  }, [initGame, gameStatus]);
+
+  const loadGameCode = (text: string) => {
+    const code = decodeGameCode(text);
+    if (!code) {
+      setNotice('无效的对局代码。');
+      return;
+    }
+    if (!confirmAbandon()) return;
+    setCodeInput('');
+    dealGameCode(code);
+  };
+
+  const dealGameCode = (code: GameCode) => {
+    pendingCodeRef.current = code;
+    pendingSaveRef.current = null;
+    pendingLayoutRef.current = null;
+    dailyAttemptRef.current = null;
+    if (codeMatchesDifficulty(code, difficulty)) {
+      initGame();
+    } else {
+      setDifficulty(difficultyForCode(code));
+    }
+  };
+
+  // Presets only describe the size; they are played on the current topology
+  const selectDifficulty = (next: Difficulty) => {
+    if (!confirmAbandon()) return;
+    pendingCodeRef.current = null;
+    pendingSaveRef.current = null;
+    pendingLayoutRef.current = null;
+    dailyAttemptRef.current = null;
+    setDifficulty({ ...next, topology: next.topology ?? difficulty.topology });
+  };
+
+  const importBoard = (file: BoardFile) => {
+    if (!confirmAbandon()) return;
+    pendingCodeRef.current = null;
+    pendingSaveRef.current = null;
+    pendingLayoutRef.current = file;
+    dailyAttemptRef.current = null;
+    setShowBoardFile(false);
+    if (sameBoard(file.difficulty, difficulty)) {
+      initGame();
+    } else {
+      setDifficulty(file.difficulty);
+    }
+  };
+
+  // The day's first attempt per level is ranked; later ones replay the same board as practice
+  const startDaily = (level: DailyLevel) => {
+    if (!confirmAbandon()) return;
+    const date = dailyDate();
+    const claimed = startDailyAttempt(date, level);
+    if (claimed) setDailyRecords(claimed);
+    setShowDaily(false);
+    dealGameCode(dailyGameCode(date, level));
+    dailyAttemptRef.current = claimed ? { date, level } : null;
+  };
+
+  const selectTopology = (topology: TopologyId) => selectDifficulty({ ...difficulty, topology });
+
+  const resumeSavedGame = () => {
+    if (!resumeOffer) return;
+    pendingCodeRef.current = null;
+    pendingSaveRef.current = resumeOffer;
+    pendingLayoutRef.current = null;
+    // A ranked daily interrupted by a reload goes on counting
+    const today = dailyDate();
+    const level = resumeOffer.gameCode ? dailyLevelOfCode(resumeOffer.gameCode, today) : null;
+    dailyAttemptRef.current = level && findDailyRecord(dailyRecords, today, level)?.status === 'playing'
+      ? { date: today, level }
+      : null;
+    setResumeOffer(null);
+    if (sameBoard(resumeOffer.difficulty, difficulty)) {
+      initGame();
+    } else {
+      setDifficulty(resumeOffer.difficulty);
+    }
+  };
+
+  const racing = raceRoom?.status === 'countdown' || raceRoom?.status === 'racing';
+
+  const leaveRace = () => {
+    raceClientRef.current?.leave();
+    raceClientRef.current = null;
+    raceGameCodeRef.current = null;
+    setRaceRoom(null);
+    setRaceCountdown(null);
+    setShowRaceLobby(false);
+  };
+
+  const connectRace = async (profile: RaceProfile, roomCode: string | null) => {
+    saveRaceProfile(profile);
+    raceClientRef.current?.leave();
+    const client = new RaceClient(profile.serverUrl);
+    raceClientRef.current = client;
+
+    client.on('room', setRaceRoom);
+    client.on('error', ({ message }) => setNotice(message));
+    client.on('start', ({ gameCode, countdownMs }) => {
+      // Everyone deals the same code once the countdown ends
+      raceGameCodeRef.current = gameCode;
+      setShowRaceLobby(false);
+      setAutoplay(false);
+      setRaceCountdown(Math.ceil(countdownMs / 1000));
+    });
+    client.on('closed', ({ reason }) => {
+      if (raceClientRef.current !== client) return;
+      raceClientRef.current = null;
+      setRaceRoom(null);
+      setRaceCountdown(null);
+      if (reason) setNotice(reason);
+    });
+
+    setRaceConnecting(true);
+    try {
+      if (roomCode) await client.join(roomCode, profile.name);
+      else await client.create(profile.name, difficulty, noGuessMode);
+    } catch (error) {
+      raceClientRef.current = null;
+      setNotice(error instanceof Error ? error.message : '无法连接对战服务器。');
+    }
+    setRaceConnecting(false);
+  };
+
+  // Start countdown; at zero the race board is dealt
+  useEffect(() => {
+    if (raceCountdown === null) return;
+    if (raceCountdown > 0) {
+      const timeout = setTimeout(() => setRaceCountdown(raceCountdown - 1), 1000);
+      return () => clearTimeout(timeout);
+    }
+    setRaceCountdown(null);
+    const code = raceGameCodeRef.current && decodeGameCode(raceGameCodeRef.current);
+    if (code) dealGameCode(code);
+  }, [raceCountdown]);
+
+  // Stream the race board to the other players
+  useEffect(() => {
+    const client = raceClientRef.current;
+    if (!client || !gameCode || gameCode !== raceGameCodeRef.current) return;
+    client.sendProgress(board, gameStatus);
+  }, [board, gameStatus, gameCode]);
+
+  // Closing the page leaves the room
+  useEffect(() => () => raceClientRef.current?.leave(), []);
+
+  const discardSavedGame = () => {
+    clearSavedGame();
+    setResumeOffer(null);
+  };
+
+  // Select value: a built-in preset key, a saved custom preset, or an unsaved custom board
+  const topology = getTopology(difficulty.topology);
+  // Huge boards are drawn on a canvas; the exact probability overlay is off for them as well
+  const useCanvas = difficulty.rows * difficulty.cols > CANVAS_MIN_CELLS;
+  const onTopology = (d: Difficulty) => ({ ...d, topology: topology.id });
+  const difficultyKey =
+    Object.keys(DIFFICULTIES).find(key => sameBoard(onTopology(DIFFICULTIES[key]), onTopology(difficulty))) ??
+    (customPresets.some(p => sameBoard(onTopology(p), onTopology(difficulty))) ? `CUSTOM:${difficulty.name}` : 'CUSTOM');
+
+  const copyGameLink = () => {
+    navigator.clipboard?.writeText(window.location.href);
+  };
+
+  const handleImportReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setViewingReplay(parseReplay(await file.text()));
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : '无法读取回放文件。');
+    }
+  };
+
   useEffect(() => {
     initGame();
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
   }, [initGame]);
 
-  // Timer Logic
+  // Finished games become replays (the board still holds the full mine layout) and history records
   useEffect(() => {
-    if (gameStatus === GameStatus.PLAYING) {
-      timerRef.current = setInterval(() => {
-        setTimer(t => Math.min(t + 1, 999));
-      }, 1000);
-    } else {
-      if (timerRef.current) clearInterval(timerRef.current);
+    if (gameStatus !== GameStatus.WON && gameStatus !== GameStatus.LOST) return;
+    const game = gameRef.current;
+    if (!game) return;
+    const timeMs = game.elapsedMs;
+    const metrics = computeGameMetrics(board, clickCountsRef.current, timeMs, difficulty.topology);
+    setTimer(Math.floor(timeMs / 1000));
+    setGameMetrics(metrics);
+    setLastReplay(createReplay(difficulty, gameCode, getMinePositions(board), game.actions, gameStatus));
+    const updated = addGameRecord({
+      difficulty,
+      won: gameStatus === GameStatus.WON,
+      timeMs,
+      bbbv: metrics.bbbv,
+      gameCode,
+      usedHints: hintsUsedRef.current,
+      usedUndo: usedUndoRef.current,
+    });
+    lastRecordIdRef.current = updated[updated.length - 1].id;
+    setHistory(updated);
+
+    // A ranked daily is final, even if practice-mode undo takes the loss back afterwards
+    const daily = dailyAttemptRef.current;
+    if (daily) {
+      dailyAttemptRef.current = null;
+      setDailyRecords(finishDailyAttempt(daily.date, daily.level, {
+        won: gameStatus === GameStatus.WON,
+        timeMs,
+        bbbv: metrics.bbbv,
+        usedHints: hintsUsedRef.current,
+        usedUndo: usedUndoRef.current,
+      }));
+      setDailyLevel(daily.level);
+      setShowDaily(true);
     }
   }, [gameStatus]);
 
+  // Autosave: the game in progress is written on every change, and dropped once it ends
+  useEffect(() => {
+    if (gameStatus === GameStatus.PLAYING) {
+      saveGame({
+        difficulty,
+        board,
+        gameStatus,
+        minesLeft,
+        elapsedMs: gameRef.current?.elapsedMs ?? 0,
+        aiHint,
+        gameCode,
+        actions: gameRef.current?.actions ?? [],
+        clicks: clickCountsRef.current,
+        usedHints: hintsUsedRef.current,
+        usedUndo: usedUndoRef.current,
+      });
+      setResumeOffer(null);
+    } else if (gameStatus !== GameStatus.IDLE || !resumeOffer) {
+      // A fresh board does not overwrite a save that is still offered for resuming
+      clearSavedGame();
+    }
+  }, [board, gameStatus, minesLeft, aiHint, timer]);
+
+  useEffect(() => {
+    if (showProbabilities && gameStatus === GameStatus.PLAYING) hintsUsedRef.current = true;
+  }, [showProbabilities, gameStatus]);
+
+  // Timer Logic: derived from the game clock, so the exact time is always available
+  // (the LED only shows whole seconds up to 999)
+  useEffect(() => {
+    if (gameStatus !== GameStatus.PLAYING) return;
+    const interval = setInterval(() => {
+      if (gameRef.current) setTimer(Math.floor(gameRef.current.elapsedMs / 1000));
+    }, 100);
+    return () => clearInterval(interval);
+  }, [gameStatus, gameGeneration]);
+
   // Dragging Handlers
   const handleMouseDown = (e: React.MouseEvent) => {
     // Only left click drags
@@ -114,79 +569,271 @@ const App: React.FC = () => {
     }
   };
 
+  // Practice mode keeps the position before each move so it can be stepped back
+  const pushUndo = useCallback((snapshot: GameSnapshot) => {
+    if (!practiceMode) return;
+    undoStackRef.current.push(snapshot);
+    setUndoCount(undoStackRef.current.length);
+  }, [practiceMode]);
+
+  // Steps back one move, a losing (or winning) one included
+  const handleUndo = () => {
+    const snapshot = undoStackRef.current.pop();
+    if (!snapshot || !gameRef.current) return;
+    usedUndoRef.current = true;
+    if (gameRef.current.isOver) {
+      // The game is on again: take back its history record and summary
+      if (lastRecordIdRef.current) setHistory(removeGameRecord(lastRecordIdRef.current));
+      lastRecordIdRef.current = null;
+      setGameMetrics(null);
+      setLastReplay(null);
+    }
+    gameRef.current.restore(snapshot);
+    setAiHint(null);
+    setUndoCount(undoStackRef.current.length);
+  };
+
   // Right Click / Flag Handler - Memoized
   // We define this BEFORE handleCellClick so we can use it inside handleCellClick if needed
+  const applyMark = useCallback((r: number, c: number, allowQuestion: boolean) => {
+    const game = gameRef.current;
+    if (!game) return;
+    const before = game.snapshot();
+    if (!game.cycleMark(r, c, allowQuestion)) return;
+    clickCountsRef.current.effective++;
+    pushUndo(before);
+  }, [pushUndo]);
+
   const handleCellContext = useCallback((r: number, c: number) => {
     if (gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST) return;
-    
-    const cell = board[r][c];
-    if (cell.state === CellState.REVEALED) return;
+    clickCountsRef.current.right++;
+    applyMark(r, c, useQuestionMarks);
+  }, [applyMark, useQuestionMarks, gameStatus]);
 
-    const newBoard = [...board];
-    
-    if (cell.state === CellState.HIDDEN) {
-      newBoard[r][c] = { ...cell, state: CellState.FLAGGED };
-      setMinesLeft(m => m - 1);
-    } else if (cell.state === CellState.FLAGGED) {
-      newBoard[r][c] = { ...cell, state: CellState.HIDDEN };
-      setMinesLeft(m => m + 1);
-    }
+  // Chord Handler: middle-click, left+right click, or a click on a satisfied number
+  const handleChord = useCallback((r: number, c: number) => {
+    if (isDragging.current) return;
+    const game = gameRef.current;
+    if (!game || game.status !== GameStatus.PLAYING) return;
 
-    setBoard(newBoard);
-  }, [board, gameStatus]);
+    clickCountsRef.current.chord++;
+    const before = game.snapshot();
+    if (!game.chord(r, c)) return;
+    clickCountsRef.current.effective++;
+    pushUndo(before);
+  }, [pushUndo]);
 
   // Click Handler
   const handleCellClick = useCallback((r: number, c: number) => {
     // If we were dragging the map, ignore the click
     if (isDragging.current) return;
+    setCursor({ row: r, col: c });
 
-    if (gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST) return;
+    const game = gameRef.current;
+    if (!game || game.isOver) return;
+    const cell = game.board[r][c];
     
-    // If cell is flagged, clicking it should toggle the flag (cancel it)
-    if (board[r][c].state === CellState.FLAGGED) {
-      handleCellContext(r, c);
+    // Clicking a revealed number chords it
+    if (cell.state === CellState.REVEALED) {
+      handleChord(r, c);
       return;
     }
 
-    let currentBoard = [...board];
-    
-    // First Move Protection
-    if (gameStatus === GameStatus.IDLE) {
-      setGameStatus(GameStatus.PLAYING);
-      // Generate mines now, ensuring (r,c) is safe
-      currentBoard = placeMines(currentBoard, difficulty, r, c);
-    }
-
-    const { board: nextBoard, hitMine } = revealCell(currentBoard, r, c);
-    setBoard(nextBoard);
+    clickCountsRef.current.left++;
 
-    if (hitMine) {
-      setGameStatus(GameStatus.LOST);
-      setBoard(revealAllMines(nextBoard));
-    } else {
-      if (checkWin(nextBoard, difficulty.mines)) {
-        setGameStatus(GameStatus.WON);
-        setMinesLeft(0);
-      }
+    // If cell is flagged, clicking it should toggle the flag (cancel it)
+    if (cell.state === CellState.FLAGGED) {
+      applyMark(r, c, false);
+      return;
     }
-    setAiHint(null); // Clear hint on move
 
-  }, [board, gameStatus, difficulty, handleCellContext]);
+    // First Move Protection: the game deals the mines on its first reveal, keeping (r,c) safe
+    const isFirstMove = game.status === GameStatus.IDLE;
+    if (isFirstMove) game.noGuess = noGuessMode;
+    const before = game.snapshot();
+    if (!game.reveal(r, c)) return;
+    clickCountsRef.current.effective++;
+    if (!isFirstMove) pushUndo(before); // The first click is never undone: it decides the layout
+
+  }, [applyMark, handleChord, noGuessMode, pushUndo]);
 
   // AI Hint Handler - Memoized
   const handleAskAI = useCallback(async () => {
     if (gameStatus !== GameStatus.PLAYING && gameStatus !== GameStatus.IDLE) return;
-    if (isAiThinking) return;
+    if (isAiThinking || racing) return;
 
     setIsAiThinking(true);
     setAiHint(null);
 
-    const hint = await getAIHint(board, minesLeft);
+    // Proven moves come from the local solver; the configured model is only consulted when a guess is needed
+    const solverHint = getSolverHint(board, difficulty.mines, difficulty.topology);
+    let hint = solverHint;
+    if (!solverHint?.certain) {
+      try {
+        const modelHint = await requestHint({ board, minesLeft, totalMines: difficulty.mines, topology: difficulty.topology }, hintSettings);
+        // The model's move leads; the solver's other candidates follow for comparison
+        const others = (solverHint?.moves ?? []).filter(m => m.row !== modelHint.row || m.col !== modelHint.col);
+        hint = { ...modelHint, moves: [...hintMoves(modelHint), ...others] };
+      } catch (error) {
+        // Offline, timed out or unparseable: fall back to the solver's guess
+        const reason = error instanceof Error ? error.message : 'AI 提示失败。';
+        setNotice(solverHint ? `${reason}已改用本地求解。` : reason);
+      }
+    }
     if (hint) {
       setAiHint(hint);
+      hintsUsedRef.current = true;
     }
     setIsAiThinking(false);
-  }, [board, minesLeft, gameStatus, isAiThinking]);
+  }, [board, minesLeft, gameStatus, isAiThinking, racing, difficulty, hintSettings]);
+
+  // Autoplay: each step shows the chosen move as a hint, then plays it after the same delay
+  useEffect(() => {
+    if (!autoplay) return;
+    const game = gameRef.current;
+    if (!game || game.isOver) {
+      setAutoplay(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    timers.push(setTimeout(async () => {
+      const move = await chooseBotMove(
+        { board: game.board, minesLeft: game.minesLeft, totalMines: difficulty.mines, topology: difficulty.topology },
+        botStrategy,
+        hintSettings
+      );
+      if (cancelled || gameRef.current !== game) return;
+      if (!move) {
+        setAutoplay(false);
+        return;
+      }
+      if (move.fallback) setNotice(`${move.fallback}已改用本地求解。`);
+      hintsUsedRef.current = true;
+      setAiHint(move.hint);
+
+      timers.push(setTimeout(() => {
+        const { row, col, action } = move.hint;
+        if (action === 'flag') handleCellContext(row, col);
+        else handleCellClick(row, col);
+      }, botDelay));
+    }, botDelay));
+
+    return () => {
+      cancelled = true;
+      timers.forEach(clearTimeout);
+    };
+  }, [autoplay, board, botStrategy, botDelay, hintSettings, difficulty, handleCellClick, handleCellContext]);
+
+  // Plays every certain move of the hint through the same handlers as clicks, so undo, click counts
+  // and game events behave as if the player had made them one by one
+  const applyCertainMoves = () => {
+    const game = gameRef.current;
+    if (!game || !aiHint) return;
+    for (const { row, col, action, certain } of hintMoves(aiHint)) {
+      if (!certain || game.isOver) continue;
+      if (action === 'flag') {
+        // A question mark cycles back to hidden before it becomes a flag
+        for (let i = 0; i < 2 && game.board[row][col].state !== CellState.FLAGGED; i++) handleCellContext(row, col);
+      } else if (game.board[row][col].state !== CellState.REVEALED) {
+        // Opened by an earlier move's cascade otherwise; a wrong flag is cleared first
+        if (game.board[row][col].state === CellState.FLAGGED) handleCellClick(row, col);
+        handleCellClick(row, col);
+      }
+    }
+    setAiHint(null);
+  };
+
+  // Hints are read out as well as shown
+  useEffect(() => {
+    if (!aiHint) return;
+    const action = aiHint.action === 'reveal' ? '揭开' : '插旗';
+    setAnnouncement(`提示：${action}第 ${aiHint.row + 1} 行第 ${aiHint.col + 1} 列。${aiHint.reasoning}`);
+  }, [aiHint]);
+
+  // Keyboard play on the focused grid: arrows / WASD move, Space or Enter reveals, F flags, C chords
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    setGridFocused(true);
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0], w: [-1, 0],
+      ArrowDown: [1, 0], s: [1, 0],
+      ArrowLeft: [0, -1], a: [0, -1],
+      ArrowRight: [0, 1], d: [0, 1],
+    };
+
+    const move = moves[key];
+    if (move) {
+      e.preventDefault();
+      const { rows, cols } = difficulty;
+      // The torus has no edges, so the cursor wraps around like its neighbourhoods do
+      const wraps = topology.id === 'torus';
+      const step = (value: number, delta: number, size: number) =>
+        wraps ? (value + delta + size) % size : Math.max(0, Math.min(size - 1, value + delta));
+      const next = { row: step(cursor.row, move[0], rows), col: step(cursor.col, move[1], cols) };
+      setCursor(next);
+      // CanvasBoard scrolls its cursor into view itself
+      document.getElementById(`cell-${next.row}-${next.col}`)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+      return;
+    }
+
+    if (key === 'Enter' || key === ' ') handleCellClick(cursor.row, cursor.col);
+    else if (key === 'f') handleCellContext(cursor.row, cursor.col);
+    else if (key === 'c') handleChord(cursor.row, cursor.col);
+    else return;
+    e.preventDefault();
+  };
+
+  // Global shortcuts: N (or F2) starts a new game, H asks for a hint.
+  // Ignored while typing in a field or when a dialog is open.
+  useEffect(() => {
+    if (showCustomDialog || showHintSettings || showBoardFile || showTraining || showDaily || showRaceLobby || showStats || showThemes || viewingReplay || analyzingReplay) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'n' || key === 'f2') {
+        e.preventDefault();
+        startNewGame();
+      } else if (key === 'h') {
+        e.preventDefault();
+        handleAskAI();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [startNewGame, handleAskAI, showCustomDialog, showHintSettings, showBoardFile, showTraining, showDaily, showRaceLobby, showStats, showThemes, viewingReplay, analyzingReplay]);
+
+  // The current hint's moves by cell, for the rings on the board
+  const hintMoveList = useMemo(() => (aiHint ? hintMoves(aiHint) : []), [aiHint]);
+  const hintMoveByCell = useMemo(() => new Map(hintMoveList.map(m => [`${m.row}-${m.col}`, m])), [hintMoveList]);
+  const certainMoveCount = hintMoveList.filter(m => m.certain).length;
+
+  // Exact mine probabilities, only computed while the overlay is visible
+  const probabilityMap = useMemo(() => {
+    if (!showProbabilities || racing || useCanvas || gameStatus !== GameStatus.PLAYING) return null;
+    return computeProbabilities(board, difficulty.mines, difficulty.topology);
+  }, [showProbabilities, racing, useCanvas, gameStatus, board, difficulty]);
+
+  const theme = useMemo(() => findTheme(themeId, customThemes), [themeId, customThemes]);
+
+  const selectTheme = (id: string) => {
+    setThemeId(id);
+    saveThemeId(id);
+  };
+
+  const importTheme = (imported: Theme) => {
+    setCustomThemes(saveCustomTheme(imported));
+    selectTheme(imported.id);
+  };
+
+  const deleteTheme = (id: string) => {
+    setCustomThemes(deleteCustomTheme(id));
+    if (id === themeId) selectTheme(DEFAULT_THEME_ID);
+  };
 
   const faceEmoji = () => {
     if (gameStatus === GameStatus.WON) return '😎';
@@ -194,114 +841,590 @@ const App: React.FC = () => {
     return '🙂'; // Default
   };
 
+  // Dialogs render inside the root, so their boards pick up the theme's custom properties too
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-slate-900 font-sans">
+    <ThemeContext.Provider value={theme}>
+    <div
+      className="min-h-screen flex flex-col items-center justify-center p-4 bg-slate-900 font-sans"
+      style={themeVariables(theme) as React.CSSProperties}
+    >
       
-      {/* Game Window */}
-      <div className="bg-slate-300 p-1 sm:p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl max-w-full flex flex-col max-h-[90vh]">
+      <div className="flex flex-col lg:flex-row items-center lg:items-start gap-4 max-w-full">
+        {/* Game Window */}
+        <div className="bg-slate-300 p-1 sm:p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl max-w-full flex flex-col max-h-[90vh]">
         
-        {/* Header (Controls + Info) */}
-        <div className="flex flex-col gap-4 mb-4 border-b-white border-r-white border-t-slate-500 border-l-slate-500 border-4 p-3 bg-slate-200 shrink-0">
+          {/* Header (Controls + Info) */}
+          <div className="flex flex-col gap-4 mb-4 border-b-white border-r-white border-t-slate-500 border-l-slate-500 border-4 p-3 bg-slate-200 shrink-0">
           
-          {/* Top Bar: Select & AI */}
-          <div className="flex justify-between items-center w-full mb-2">
-            <select 
-              className="px-2 py-1 bg-white border-2 border-slate-400 text-sm focus:outline-none font-bold text-slate-700"
-              value={Object.keys(DIFFICULTIES).find(key => DIFFICULTIES[key].name === difficulty.name) || 'BEGINNER'}
-              onChange={(e) => {
-                const key = e.target.value as keyof typeof DIFFICULTIES;
-                setDifficulty(DIFFICULTIES[key]);
-              }}
-            >
-              {Object.keys(DIFFICULTIES).map(k => (
-                <option key={k} value={k}>{DIFFICULTIES[k].name}</option>
-              ))}
-            </select>
-
-            <button 
-              onClick={handleAskAI}
-              disabled={isAiThinking || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST}
-              className={`flex items-center gap-1 px-3 py-1 text-sm font-bold text-white rounded shadow-md transition-colors 
-                ${isAiThinking ? 'bg-purple-400 cursor-wait' : 'bg-purple-600 hover:bg-purple-500 active:bg-purple-700'}`}
-            >
-              <Sparkles size={14} />
-              {isAiThinking ? '思考中...' : 'AI 提示'}
-            </button>
-          </div>
+            {/* Top Bar: Select & AI */}
+            <div className="flex flex-wrap justify-between items-center gap-2 w-full mb-2">
+              <div className="flex items-center gap-1">
+                <select 
+                  className="px-2 py-1 bg-white border-2 border-slate-400 text-sm focus:outline-none font-bold text-slate-700"
+                  value={difficultyKey}
+                  onChange={(e) => {
+                    const key = e.target.value;
+                    if (key.startsWith('CUSTOM:')) {
+                      const preset = customPresets.find(p => `CUSTOM:${p.name}` === key);
+                      if (preset) selectDifficulty(preset);
+                    } else if (DIFFICULTIES[key]) {
+                      selectDifficulty(DIFFICULTIES[key]);
+                    }
+                  }}
+                >
+                  {Object.keys(DIFFICULTIES).map(k => (
+                    <option key={k} value={k}>{DIFFICULTIES[k].name}</option>
+                  ))}
+                  {customPresets.map(p => (
+                    <option key={p.name} value={`CUSTOM:${p.name}`}>{p.name}</option>
+                  ))}
+                  {difficultyKey === 'CUSTOM' && (
+                    <option value="CUSTOM">{difficulty.name} {difficulty.rows}x{difficulty.cols}/{difficulty.mines}</option>
+                  )}
+                </select>
+                <select
+                  className="px-2 py-1 bg-white border-2 border-slate-400 text-sm focus:outline-none font-bold text-slate-700"
+                  value={topology.id}
+                  title={topology.description}
+                  onChange={(e) => selectTopology(e.target.value as TopologyId)}
+                >
+                  {Object.values(TOPOLOGIES).map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowCustomDialog(true)}
+                  title="自定义难度"
+                  className="p-1.5 bg-white border-2 border-slate-400 text-slate-700 hover:bg-slate-100"
+                >
+                  <SlidersHorizontal size={14} />
+                </button>
+              </div>
+
+              <label className="flex items-center gap-1 text-sm font-bold text-slate-700 select-none" title="保证从第一次点击开始无需猜测即可通关">
+                <input
+                  type="checkbox"
+                  checked={noGuessMode}
+                  onChange={(e) => setNoGuessMode(e.target.checked)}
+                />
+                无猜
+              </label>
+
+              <label className="flex items-center gap-1 text-sm font-bold text-slate-700 select-none" title="右键/长按依次切换 旗帜 → 问号 → 空白">
+                <input
+                  type="checkbox"
+                  checked={useQuestionMarks}
+                  onChange={(e) => setUseQuestionMarks(e.target.checked)}
+                />
+                问号
+              </label>
 
-          {/* Game Stats Bar */}
-          <div className="flex justify-between items-center w-full">
-            <LEDDisplay value={minesLeft} />
+              <label className="flex items-center gap-1 text-sm font-bold text-slate-700 select-none" title="练习模式可以悔棋，使用过悔棋的对局不计入排行榜">
+                <input
+                  type="checkbox"
+                  checked={practiceMode}
+                  onChange={(e) => setPracticeMode(e.target.checked)}
+                />
+                练习
+              </label>
+
+              <button 
+                onClick={() => setShowProbabilities(v => !v)}
+                title={useCanvas ? '超大棋盘不提供概率显示' : '显示每个格子是地雷的精确概率'}
+                disabled={racing || useCanvas}
+                className={`flex items-center gap-1 px-3 py-1 text-sm font-bold rounded shadow-md transition-colors disabled:opacity-50
+                  ${showProbabilities ? 'bg-emerald-600 text-white hover:bg-emerald-500' : 'bg-white text-slate-700 border-2 border-slate-400 hover:bg-slate-100'}`}
+              >
+                <Percent size={14} />
+                {probabilityMap && !probabilityMap.exact ? '概率(近似)' : '概率'}
+              </button>
+
+              <button 
+                onClick={handleAskAI}
+                title="AI 提示 (H)"
+                disabled={isAiThinking || racing || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST}
+                className={`flex items-center gap-1 px-3 py-1 text-sm font-bold text-white rounded shadow-md transition-colors disabled:opacity-50
+                  ${isAiThinking ? 'bg-purple-400 cursor-wait' : 'bg-purple-600 hover:bg-purple-500 active:bg-purple-700'}`}
+              >
+                <Sparkles size={14} />
+                {isAiThinking ? '思考中...' : 'AI 提示'}
+              </button>
+
+              <button
+                onClick={() => setShowCoach(v => !v)}
+                title="和 AI 教练讨论当前局面（计为使用了提示）"
+                disabled={racing}
+                className={`flex items-center gap-1 px-3 py-1 text-sm font-bold rounded shadow-md transition-colors disabled:opacity-50
+                  ${showCoach ? 'bg-violet-600 text-white hover:bg-violet-500' : 'bg-white text-slate-700 border-2 border-slate-400 hover:bg-slate-100'}`}
+              >
+                <MessageSquare size={14} />
+                教练
+              </button>
+
+              <button
+                onClick={() => setShowHintSettings(true)}
+                title={`AI 提示设置（当前: ${HINT_PROVIDERS[hintSettings.provider].name}）`}
+                aria-label="AI 提示设置"
+                className="flex items-center px-2 py-1 text-sm font-bold text-slate-700 bg-white border-2 border-slate-400 rounded shadow-md hover:bg-slate-100"
+              >
+                <Settings size={14} />
+              </button>
+
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setAutoplay(v => !v)}
+                  title="让提示引擎自动下完这一局（计为使用了提示）"
+                  disabled={!autoplay && (racing || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST)}
+                  className={`flex items-center gap-1 px-3 py-1 text-sm font-bold rounded shadow-md transition-colors disabled:opacity-50
+                    ${autoplay ? 'bg-sky-600 text-white hover:bg-sky-500' : 'bg-white text-slate-700 border-2 border-slate-400 hover:bg-slate-100'}`}
+                >
+                  {autoplay ? <Pause size={14} /> : <Bot size={14} />}
+                  {autoplay ? '暂停' : '自动'}
+                </button>
+                <select
+                  className="px-1 py-1 bg-white border-2 border-slate-400 text-sm focus:outline-none text-slate-700"
+                  value={botStrategy}
+                  title="自动游戏需要猜测时的策略"
+                  onChange={(e) => setBotStrategy(e.target.value as BotStrategy)}
+                >
+                  {Object.entries(BOT_STRATEGIES).map(([id, name]) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+                <select
+                  className="px-1 py-1 bg-white border-2 border-slate-400 text-sm focus:outline-none text-slate-700"
+                  value={botDelay}
+                  title="自动游戏速度"
+                  onChange={(e) => setBotDelay(Number(e.target.value))}
+                >
+                  <option value={1000}>慢</option>
+                  <option value={400}>中</option>
+                  <option value={150}>快</option>
+                  <option value={30}>极快</option>
+                </select>
+              </div>
+
+              <button
+                onClick={() => setShowDaily(true)}
+                title="每天一个固定棋盘，和队友比较成绩"
+                disabled={racing}
+                className="flex items-center gap-1 px-3 py-1 text-sm font-bold text-slate-700 bg-white border-2 border-slate-400 rounded shadow-md hover:bg-slate-100 disabled:opacity-50"
+              >
+                <CalendarDays size={14} />
+                每日挑战
+              </button>
+
+              <button
+                onClick={() => setShowRaceLobby(true)}
+                title="与队友在同一棋盘上比赛（本地服务器）"
+                disabled={raceRoom !== null && raceRoom.status !== 'lobby'}
+                className="flex items-center gap-1 px-3 py-1 text-sm font-bold text-slate-700 bg-white border-2 border-slate-400 rounded shadow-md hover:bg-slate-100 disabled:opacity-50"
+              >
+                <Swords size={14} />
+                对战
+              </button>
+            </div>
+
+            {/* Game Stats Bar */}
+            <div className="flex justify-between items-center w-full">
+              <LEDDisplay value={minesLeft} />
             
-            <button 
-              onClick={initGame}
-              className="w-12 h-12 text-3xl flex items-center justify-center bg-slate-200 border-t-white border-l-white border-b-slate-600 border-r-slate-600 border-4 active:border-t-slate-600 active:border-l-slate-600 active:border-b-white active:border-r-white"
-            >
-              {faceEmoji()}
-            </button>
-
-            <LEDDisplay value={timer} />
-          </div>
+              <button 
+                onClick={startNewGame}
+                aria-label="新的一局 (N)"
+                title="新的一局 (N)"
+                className="w-12 h-12 text-3xl flex items-center justify-center bg-slate-200 border-t-white border-l-white border-b-slate-600 border-r-slate-600 border-4 active:border-t-slate-600 active:border-l-slate-600 active:border-b-white active:border-r-white"
+              >
+                {faceEmoji()}
+              </button>
 
-          {/* AI Hint Text */}
-          {aiHint && (
-            <div className="mt-2 text-sm bg-yellow-100 border border-yellow-400 text-yellow-800 p-2 rounded flex items-start gap-2 animate-pulse">
-               <HelpCircle size={16} className="mt-0.5 shrink-0" />
-               <div>
-                 <span className="font-bold">Gemini 分析: </span>
-                 {aiHint.reasoning} 
-                 <span className="block text-xs mt-1 text-slate-500">
-                    建议操作: {aiHint.action === 'reveal' ? '揭示' : '标记'} (行 {aiHint.row + 1}, 列 {aiHint.col + 1})
-                 </span>
-               </div>
+              <LEDDisplay value={timer} />
             </div>
-          )}
-        </div>
 
-        {/* Board Container */}
-        {/* We attach drag handlers here. 'cursor-grab' signals functionality. 'no-scrollbar' hides bars. */}
-        <div 
-          ref={scrollContainerRef}
-          className="overflow-auto border-t-slate-500 border-l-slate-500 border-b-white border-r-white border-4 bg-slate-400 cursor-grab no-scrollbar relative flex-1"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseLeave}
-        >
+            {/* End-of-game efficiency summary */}
+            {gameMetrics && (
+              <GameSummary metrics={gameMetrics} won={gameStatus === GameStatus.WON} />
+            )}
+
+            {/* Game Code: share or replay an exact board */}
+            <div className="flex items-center gap-2 w-full text-xs text-slate-700">
+              <span className="font-bold shrink-0">对局代码:</span>
+              <span className="font-mono truncate flex-1">{gameCode ?? '首次点击后生成'}</span>
+              {gameCode && (
+                <button onClick={copyGameLink} title="复制对局链接" className="p-1 hover:bg-slate-300 rounded">
+                  <Copy size={14} />
+                </button>
+              )}
+              <input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') loadGameCode(codeInput); }}
+                placeholder="输入对局代码"
+                className="w-32 px-1 py-0.5 border-2 border-slate-400 bg-white font-mono focus:outline-none"
+              />
+              <button
+                onClick={() => loadGameCode(codeInput)}
+                disabled={!codeInput.trim()}
+                title="开始这局"
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50"
+              >
+                <Play size={12} />
+                开始
+              </button>
+            </div>
+
+            {/* Replays: watch, analyse or export the finished game, or import one */}
+            <div className="flex flex-wrap items-center gap-2 w-full text-xs">
+              <button
+                onClick={() => lastReplay && setViewingReplay(lastReplay)}
+                disabled={!lastReplay}
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50"
+              >
+                <Film size={12} />
+                回放本局
+              </button>
+              <button
+                onClick={() => lastReplay && setAnalyzingReplay(lastReplay)}
+                disabled={!lastReplay || lastReplay.difficulty.rows * lastReplay.difficulty.cols > ANALYSIS_MAX_CELLS}
+                title="逐步检查每一步是推理、猜测还是失误"
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50"
+              >
+                <Microscope size={12} />
+                复盘分析
+              </button>
+              <button
+                onClick={() => lastReplay && downloadReplay(lastReplay)}
+                disabled={!lastReplay}
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50"
+              >
+                <Download size={12} />
+                导出回放
+              </button>
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+              >
+                <Upload size={12} />
+                导入回放
+              </button>
+              <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportReplay} />
+              <button
+                onClick={() => setShowBoardFile(true)}
+                disabled={racing}
+                title="导入或导出地雷布局（文本 / MBF）"
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50"
+              >
+                <FileText size={12} />
+                棋盘
+              </button>
+              {practiceMode && (
+                <button
+                  onClick={handleUndo}
+                  disabled={undoCount === 0}
+                  title="撤销上一步（含踩雷）"
+                  className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50"
+                >
+                  <Undo2 size={12} />
+                  悔棋 ({undoCount})
+                </button>
+              )}
+              <button
+                onClick={() => setShowTraining(true)}
+                disabled={racing}
+                title="推理练习：找出局面中所有能确定的格子"
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50 ml-auto"
+              >
+                <GraduationCap size={12} />
+                练习题
+              </button>
+              <button
+                onClick={() => setShowStats(true)}
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+              >
+                <BarChart3 size={12} />
+                统计
+              </button>
+              <button
+                onClick={() => setShowThemes(true)}
+                title="棋盘配色与图案，包括高对比度和色弱友好主题"
+                className="flex items-center gap-1 px-2 py-0.5 font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+              >
+                <Palette size={12} />
+                外观
+              </button>
+            </div>
+
+            {resumeOffer && (
+              <div className="flex items-center gap-2 text-xs bg-sky-100 border border-sky-400 text-sky-800 p-2 rounded">
+                <RotateCcw size={14} className="shrink-0" />
+                <span className="flex-1">
+                  有一局未完成的{resumeOffer.difficulty.name}（{resumeOffer.difficulty.rows}x{resumeOffer.difficulty.cols}/{resumeOffer.difficulty.mines}），
+                  已用时 {Math.floor(resumeOffer.elapsedMs / 1000)} 秒。
+                </span>
+                <button onClick={resumeSavedGame} className="px-2 py-0.5 font-bold text-white bg-sky-600 hover:bg-sky-500 rounded">
+                  继续
+                </button>
+                <button onClick={discardSavedGame} className="px-2 py-0.5 font-bold text-sky-800 bg-white border border-sky-400 rounded hover:bg-sky-50">
+                  放弃
+                </button>
+              </div>
+            )}
+
+            {/* Screen-reader announcements */}
+            <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+            {notice && (
+              <div className="text-xs bg-orange-100 border border-orange-400 text-orange-800 p-2 rounded">
+                {notice}
+              </div>
+            )}
+
+            {/* AI Hint Text */}
+            {aiHint && (
+              <div className="mt-2 text-sm bg-yellow-100 border border-yellow-400 text-yellow-800 p-2 rounded flex items-start gap-2 animate-pulse">
+                 <HelpCircle size={16} className="mt-0.5 shrink-0" />
+                 <div>
+                   <span className="font-bold">{aiHint.source === 'solver' ? '本地求解' : `${HINT_PROVIDERS[aiHint.source ?? 'gemini'].name} 分析`}</span>
+                   {aiHint.certain ? (
+                     <span className="inline-flex items-center gap-0.5 mx-1 px-1 text-xs font-bold text-white bg-emerald-600 rounded" title="该步已由本地求解器严格证明">
+                       <ShieldCheck size={12} /> 已验证
+                     </span>
+                   ) : aiHint.confidence !== undefined && (
+                     <span className="mx-1 px-1 text-xs font-bold text-white bg-amber-600 rounded" title="按精确概率计算，这一步正确的可能性">
+                       把握 {(aiHint.confidence * 100).toFixed(0)}%
+                     </span>
+                   )}
+                   {aiHint.attempts && aiHint.attempts > 1 && (
+                     <span className="mr-1 text-xs text-slate-500">（第 {aiHint.attempts} 次回答）</span>
+                   )}
+                   <span className="font-bold">: </span>
+                   {aiHint.reasoning} 
+                   <span className="block text-xs mt-1 text-slate-500">
+                      建议操作: {aiHint.action === 'reveal' ? '揭示' : '标记'} (行 {aiHint.row + 1}, 列 {aiHint.col + 1})
+                      {hintMoveList.length > 1 && ` · 棋盘上共圈出 ${hintMoveList.length} 步（蓝圈确定安全，红圈确定是雷，橙圈是猜测）`}
+                   </span>
+                   {certainMoveCount > 1 && gameStatus === GameStatus.PLAYING && (
+                     <button
+                       onClick={applyCertainMoves}
+                       className="mt-1 flex items-center gap-1 px-2 py-0.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-500 rounded"
+                     >
+                       <ListChecks size={12} /> 执行全部确定的步骤（{certainMoveCount}）
+                     </button>
+                   )}
+                 </div>
+              </div>
+            )}
+          </div>
+
+          {/* Board Container */}
+          {/* We attach drag handlers here. 'cursor-grab' signals functionality. 'no-scrollbar' hides bars. */}
           <div 
-            className="grid gap-0"
-            style={{ 
-              // 'auto' forces cells to respect their internal w/h, avoiding shrinking on large grids
-              gridTemplateColumns: `repeat(${difficulty.cols}, auto)`,
-              width: 'max-content' // Ensures the grid expands horizontally beyond container
-            }}
+            ref={scrollContainerRef}
+            className="overflow-auto border-t-slate-500 border-l-slate-500 border-b-white border-r-white border-4 bg-[color:var(--ms-board)] cursor-grab no-scrollbar relative flex-1"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
           >
-            {board.map((row, rIndex) => (
-              row.map((cell, cIndex) => {
-                // Highlight hint cell
-                const isHintTarget = aiHint?.row === rIndex && aiHint?.col === cIndex;
-                
-                return (
-                  <div key={`${rIndex}-${cIndex}`} className={`relative ${isHintTarget ? 'z-10 ring-4 ring-yellow-400' : ''}`}>
-                    <MineCell 
-                      data={cell} 
-                      onClick={handleCellClick} 
-                      onContextMenu={handleCellContext} 
-                    />
-                  </div>
-                );
-              })
-            ))}
+            {/* Huge boards go on a windowed canvas. Otherwise rows follow the topology's layout
+                (hex boards stagger them); max-content lets the board grow past the container */}
+            {useCanvas ? (
+              <CanvasBoard
+                board={board}
+                topology={difficulty.topology}
+                scrollRef={scrollContainerRef}
+                cursor={cursor}
+                showCursor={gridFocused}
+                hintMoves={hintMoveList}
+                highlights={coachRefs}
+                onClick={handleCellClick}
+                onContextMenu={handleCellContext}
+                onChord={handleChord}
+                canvasProps={{
+                  tabIndex: 0,
+                  'aria-label': `扫雷棋盘，${difficulty.rows} 行 ${difficulty.cols} 列，${difficulty.mines} 个地雷。方向键或 WASD 移动，空格或回车揭开，F 插旗，C 双击数字`,
+                  onKeyDown: handleGridKeyDown,
+                  // Mouse focus keeps the cursor hidden; it shows once the keyboard is used
+                  onFocus: (e) => setGridFocused(e.currentTarget.matches(':focus-visible')),
+                  onBlur: () => setGridFocused(false),
+                  className: 'focus:outline-none',
+                }}
+              />
+            ) : (
+              <BoardLayout
+                board={board}
+                topology={difficulty.topology}
+                className="focus:outline-none"
+                gridProps={{
+                  tabIndex: 0,
+                  'aria-label': `扫雷棋盘，${difficulty.rows} 行 ${difficulty.cols} 列，${difficulty.mines} 个地雷。方向键或 WASD 移动，空格或回车揭开，F 插旗，C 双击数字`,
+                  'aria-activedescendant': `cell-${cursor.row}-${cursor.col}`,
+                  onKeyDown: handleGridKeyDown,
+                  // Mouse focus keeps the cursor hidden; it shows once the keyboard is used
+                  onFocus: (e) => setGridFocused(e.currentTarget.matches(':focus-visible')),
+                  onBlur: () => setGridFocused(false),
+                }}
+                renderCell={(cell) => {
+                  const { row: rIndex, col: cIndex } = cell;
+                  // Highlight the hint's moves
+                  const hintMove = hintMoveByCell.get(`${rIndex}-${cIndex}`);
+                  // Mark the lowest-risk cell of the probability overlay
+                  const isSafest = probabilityMap?.safest?.row === rIndex && probabilityMap?.safest?.col === cIndex;
+                  // Cells the coach's answer names
+                  const isCoachRef = coachRefs.some(ref => ref.row === rIndex && ref.col === cIndex);
+              
+                  return (
+                    <div key={`${rIndex}-${cIndex}`} className={`relative ${hintMove ? `z-10 ${hintRing(hintMove)}` : isCoachRef ? 'z-10 ring-4 ring-violet-500' : isSafest ? 'z-10 ring-4 ring-emerald-400' : ''}`}>
+                      <MineCell 
+                        data={cell} 
+                        onClick={handleCellClick} 
+                        onContextMenu={handleCellContext} 
+                        onChord={handleChord}
+                        probability={probabilityMap?.probabilities[rIndex][cIndex]}
+                        id={`cell-${rIndex}-${cIndex}`}
+                        isCursor={gridFocused && cursor.row === rIndex && cursor.col === cIndex}
+                      />
+                    </div>
+                  );
+                }}
+              />
+            )}
           </div>
         </div>
+
+        {/* Coach chat, beside the board; hints are off during races */}
+        {showCoach && !racing && (
+          <CoachPanel
+            board={board}
+            minesLeft={minesLeft}
+            totalMines={difficulty.mines}
+            topology={difficulty.topology}
+            getActions={() => gameRef.current?.actions ?? []}
+            settings={hintSettings}
+            onAsk={() => { hintsUsedRef.current = true; }}
+            onHighlight={setCoachRefs}
+            onClose={() => setShowCoach(false)}
+          />
+        )}
+
+        {/* Opponents of a race, beside the board */}
+        {raceRoom && raceRoom.status !== 'lobby' && (
+          <RacePanel
+            room={raceRoom}
+            playerId={raceClientRef.current?.playerId ?? null}
+            countdown={raceCountdown}
+            onRematch={() => raceClientRef.current?.start()}
+            onLeave={leaveRace}
+          />
+        )}
       </div>
       
+      {showCustomDialog && (
+        <CustomDifficultyDialog
+          initial={difficulty}
+          presets={customPresets}
+          onApply={(d) => {
+            selectDifficulty({ ...d });
+            setShowCustomDialog(false);
+          }}
+          onSavePreset={(d) => setCustomPresets(saveCustomPreset(d))}
+          onDeletePreset={(name) => setCustomPresets(deleteCustomPreset(name))}
+          onClose={() => setShowCustomDialog(false)}
+        />
+      )}
+
+      {showHintSettings && (
+        <HintSettingsDialog
+          settings={hintSettings}
+          onSave={(settings) => {
+            setHintSettings(settings);
+            saveHintSettings(settings);
+            setShowHintSettings(false);
+          }}
+          onClose={() => setShowHintSettings(false)}
+        />
+      )}
+
+      {showBoardFile && (
+        <BoardFileDialog
+          board={board}
+          topology={difficulty.topology}
+          hasLayout={gameStatus !== GameStatus.IDLE}
+          inProgress={gameStatus === GameStatus.PLAYING}
+          onExport={() => { hintsUsedRef.current = true; }}
+          onImport={importBoard}
+          onClose={() => setShowBoardFile(false)}
+        />
+      )}
+
+      {showTraining && (
+        <TrainingDialog topology={difficulty.topology} onClose={() => setShowTraining(false)} />
+      )}
+
+      {showDaily && (
+        <DailyDialog
+          records={dailyRecords}
+          today={dailyDate()}
+          initialLevel={dailyLevel}
+          onStart={startDaily}
+          onClose={() => setShowDaily(false)}
+        />
+      )}
+
+      {showRaceLobby && (!raceRoom || raceRoom.status === 'lobby') && (
+        <RaceLobby
+          room={raceRoom}
+          playerId={raceClientRef.current?.playerId ?? null}
+          connecting={raceConnecting}
+          profile={loadRaceProfile()}
+          difficulty={difficulty}
+          noGuess={noGuessMode}
+          onCreate={(profile) => connectRace(profile, null)}
+          onJoin={(profile, roomCode) => connectRace(profile, roomCode)}
+          onStart={() => raceClientRef.current?.start()}
+          onLeave={leaveRace}
+          onClose={() => setShowRaceLobby(false)}
+        />
+      )}
+
+      {showStats && (
+        <StatsPanel
+          history={history}
+          difficulties={[...Object.values(DIFFICULTIES), ...customPresets]}
+          initialDifficulty={difficulty}
+          onClearHistory={() => setHistory(clearHistory())}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {showThemes && (
+        <ThemeDialog
+          themes={[...BUILTIN_THEMES, ...customThemes]}
+          selectedId={theme.id}
+          onSelect={selectTheme}
+          onImport={importTheme}
+          onDelete={deleteTheme}
+          onClose={() => setShowThemes(false)}
+        />
+      )}
+
+      {viewingReplay && (
+        <ReplayViewer replay={viewingReplay} onClose={() => setViewingReplay(null)} />
+      )}
+
+      {analyzingReplay && (
+        <AnalysisViewer replay={analyzingReplay} settings={hintSettings} onClose={() => setAnalyzingReplay(null)} />
+      )}
+
       <div className="mt-6 text-slate-500 text-xs text-center max-w-md">
         <p>手机端或电脑端长按格子均可标记地雷。</p>
+        <p>键盘：Tab 聚焦棋盘，方向键/WASD 移动，空格揭开，F 插旗，C 双击数字，N 新局，H 提示。</p>
+        {topology.id !== DEFAULT_TOPOLOGY && <p>{topology.description}</p>}
         <p>Powered by React & Google Gemini</p>
       </div>
 
     </div>
+    </ThemeContext.Provider>
   );
 };
 
@@ -0,0 +1,159 @@
+import { CellData, CellRef, CellState, GameStatus } from './types';
+import { boardFromMines, getNeighbors } from './gameEngine';
+import { Replay, ReplayAction, applyReplayAction } from './replay';
+import { Deduction, cellName, solveBoard } from './solver';
+import { computeProbabilities } from './probability';
+import { isRevealed } from './constraints';
+
+// Post-game analysis: replays a recorded game and judges every opening move (reveal or chord)
+// against what the position before it proved. Flags and question marks are not judged; they
+// never risk anything by themselves.
+
+export type MoveVerdict = 'opening' | 'forced' | 'guess' | 'blunder';
+
+export const MOVE_VERDICTS: Record<MoveVerdict, { name: string; description: string }> = {
+  opening: { name: '开局', description: '第一步，棋盘上还没有任何信息。' },
+  forced: { name: '推理', description: '打开的格子全部可以由数字证明安全。' },
+  guess: { name: '猜测', description: '局面里没有可以证明安全的格子，只能猜。' },
+  blunder: { name: '失误', description: '明明有可以证明安全的格子，却点了没有证明的格子。' },
+};
+
+// The solver runs once per move and every judged position is kept, so the cost grows with the
+// square of the board: a 50x50 game takes a few seconds, a 100x100 one minutes and gigabytes
+export const ANALYSIS_MAX_CELLS = 2500;
+const ANALYSIS_SLICE_MS = 16;
+
+export interface AnalyzedMove {
+  actionIndex: number; // Position in replay.actions
+  action: ReplayAction;
+  verdict: MoveVerdict;
+  board: CellData[][]; // The position before the move
+  opened: CellRef[]; // Cells the move uncovered directly (a chord opens several)
+  risk: number | null; // Mine probability of the riskiest unproven cell opened; null when all were proven
+  solvable: Deduction[]; // What the position proved and the player had not used yet: safe cells and unflagged mines
+  hitMine: boolean;
+}
+
+export interface GameAnalysis {
+  moves: AnalyzedMove[];
+  fatal: AnalyzedMove | null; // The move that lost the game
+  counts: Record<MoveVerdict, number>;
+}
+
+const keyOf = (ref: CellRef) => `${ref.row},${ref.col}`;
+
+const isOpenable = (cell: CellData) => cell.state === CellState.HIDDEN || cell.state === CellState.QUESTION;
+
+// Cells the action would uncover directly; empty when it does nothing
+const targetsOf = (board: CellData[][], action: ReplayAction, replay: Replay): CellRef[] => {
+  const cell = board[action.row][action.col];
+  if (action.type === 'reveal') return isOpenable(cell) ? [cell] : [];
+  if (action.type !== 'chord' || cell.state !== CellState.REVEALED || cell.value <= 0) return [];
+
+  const { rows, cols, topology } = replay.difficulty;
+  const neighbors = getNeighbors(rows, cols, action.row, action.col, topology).map(([r, c]) => board[r][c]);
+  const flags = neighbors.filter(n => n.state === CellState.FLAGGED).length;
+  return flags === cell.value ? neighbors.filter(isOpenable) : [];
+};
+
+// Judges the recorded actions one at a time; done once every action is judged or a mine went off
+const createAnalyzer = (replay: Replay) => {
+  const { rows, cols, mines, topology } = replay.difficulty;
+  let board = boardFromMines(rows, cols, replay.mines, topology);
+  let index = 0;
+  let exploded = false;
+  const moves: AnalyzedMove[] = [];
+
+  const done = () => exploded || index >= replay.actions.length;
+
+  const step = () => {
+    const i = index++;
+    const action = replay.actions[i];
+    const opened = targetsOf(board, action, replay);
+    const { board: next, hitMine } = applyReplayAction(board, action, topology);
+
+    if (opened.length > 0) {
+      const analyzed: AnalyzedMove = { actionIndex: i, action, verdict: 'opening', board, opened, risk: null, solvable: [], hitMine };
+
+      if (board.some(row => row.some(isRevealed))) {
+        const result = solveBoard(board, mines, topology);
+        const proven = new Set(result.safe.map(keyOf));
+        const unproven = opened.filter(ref => !proven.has(keyOf(ref)));
+        analyzed.solvable = [...result.safe, ...result.mines.filter(d => board[d.row][d.col].state !== CellState.FLAGGED)];
+
+        if (unproven.length === 0) {
+          analyzed.verdict = 'forced';
+        } else {
+          analyzed.verdict = result.safe.length > 0 ? 'blunder' : 'guess';
+          const { probabilities } = computeProbabilities(board, mines, topology);
+          analyzed.risk = Math.max(...unproven.map(ref => probabilities[ref.row][ref.col] ?? 0));
+        }
+      }
+      moves.push(analyzed);
+    }
+
+    board = next;
+    exploded = hitMine;
+  };
+
+  const result = (): GameAnalysis => {
+    const counts: Record<MoveVerdict, number> = { opening: 0, forced: 0, guess: 0, blunder: 0 };
+    moves.forEach(m => counts[m.verdict]++);
+    const last = moves[moves.length - 1];
+    return {
+      moves,
+      fatal: replay.result === GameStatus.LOST && last?.hitMine ? last : null,
+      counts,
+    };
+  };
+
+  return { done, step, result, progress: () => index };
+};
+
+export const analyzeGame = (replay: Replay): GameAnalysis => {
+  const analyzer = createAnalyzer(replay);
+  while (!analyzer.done()) analyzer.step();
+  return analyzer.result();
+};
+
+// The browser's version of analyzeGame: works in slices of about one frame and hands the
+// thread back in between, so the page stays responsive. onProgress gets the actions judged so far.
+// Rejects with an AbortError once the signal fires.
+export const analyzeGameInSlices = async (
+  replay: Replay,
+  signal: AbortSignal,
+  onProgress?: (judged: number) => void
+): Promise<GameAnalysis> => {
+  const analyzer = createAnalyzer(replay);
+  while (!analyzer.done()) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    signal.throwIfAborted();
+    const sliceEnd = Date.now() + ANALYSIS_SLICE_MS;
+    do analyzer.step(); while (!analyzer.done() && Date.now() < sliceEnd);
+    onProgress?.(analyzer.progress());
+  }
+  return analyzer.result();
+};
+
+// One-line verdict on the losing click, in Chinese
+export const describeFatalMove = (move: AnalyzedMove): string => {
+  const target = move.action.type === 'chord' ? `在 ${cellName(move.action)} 双击` : `点开 ${cellName(move.action)}`;
+  const risk = move.risk !== null ? `（踩雷概率 ${(move.risk * 100).toFixed(1)}%）` : '';
+  const safeCount = move.solvable.filter(d => !d.isMine).length;
+
+  switch (move.verdict) {
+    case 'blunder':
+      return move.risk === 1
+        ? `${target}是失误：打开的格子可以证明是地雷，当时还有 ${safeCount} 个格子可以证明安全。`
+        : `${target}${risk}是失误：当时有 ${safeCount} 个格子可以证明安全，完全不必冒险。`;
+    case 'guess':
+      return move.solvable.length > 0
+        ? `${target}${risk}是被迫的猜测：当时只能推出地雷的位置，没有可以证明安全的格子。`
+        : `${target}${risk}是被迫的猜测：当时的局面推不出任何确定的格子，运气不好。`;
+    case 'forced':
+      // Not reachable for a losing move (proven cells never hold a mine), kept for completeness
+      return `${target}打开的格子都可以证明安全。`;
+    case 'opening':
+      return `${target}是第一步，这个棋盘不保证首击安全。`;
+  }
+};
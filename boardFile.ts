@@ -0,0 +1,188 @@
+import { CellData, CellState, CellValue, Difficulty, TopologyId } from './types';
+import { boardFromMines, getMinePositions, validateDifficulty } from './gameEngine';
+import { DEFAULT_TOPOLOGY, isTopologyId } from './topology';
+
+// Board files: a mine layout, optionally with the player's progress, for hand-crafted boards
+// and for trading boards with other programs. Two formats:
+//
+// Text: one line per row, cells separated by spaces (like the hint prompt's board), "#" lines are comments.
+//   H  hidden        *  mine           F  flag on a mine     X  flag on a safe cell
+//   0-8  revealed cell (must match the mines around it)
+//   "# topology=<id>" picks a non-square board. Rows without spaces are read one character per cell,
+//   so a hand-drawn grid of "H" and "*" works too.
+//
+// MBF (Minesweeper Board Format, as read by Minesweeper Arbiter and its successors), as a file or Base64:
+//   width, height (1 byte each), mine count (2 bytes, big-endian), then x, y (1 byte each) per mine.
+//   MBF only holds the layout of a square grid; progress and topology are not part of it.
+
+export interface BoardFile {
+  difficulty: Difficulty;
+  board: CellData[][]; // Numbers recomputed from the mines; cell states as in the file
+  hasProgress: boolean; // Some cell is revealed or flagged
+}
+
+const HIDDEN = 'H';
+const MINE = '*';
+const FLAGGED_MINE = 'F';
+const FLAGGED_SAFE = 'X';
+const TOPOLOGY_COMMENT = /^#\s*topology\s*=\s*(\S+)/i;
+
+const MBF_HEADER_BYTES = 4;
+const MBF_MAX_SIZE = 255;
+const MBF_MAX_MINES = 0xffff;
+
+export const IMPORTED_BOARD_NAME = '导入';
+
+// Text export. Without progress every cell is written hidden; revealed mines (a lost game) are written as hidden.
+export const boardToText = (board: CellData[][], topology?: TopologyId, includeProgress = true): string => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const header = [`# 扫雷棋盘 ${rows}x${cols}，${getMinePositions(board).length} 个地雷`];
+  if ((topology ?? DEFAULT_TOPOLOGY) !== DEFAULT_TOPOLOGY) header.push(`# topology=${topology}`);
+
+  const grid = board.map(row => row.map(cell => {
+    const isMine = cell.value === CellValue.MINE;
+    if (includeProgress && cell.state === CellState.FLAGGED) return isMine ? FLAGGED_MINE : FLAGGED_SAFE;
+    if (includeProgress && cell.state === CellState.REVEALED && !isMine) return String(cell.value);
+    return isMine ? MINE : HIDDEN;
+  }).join(' '));
+  return [...header, ...grid].join('\n') + '\n';
+};
+
+// Checks a layout against the engine's limits and builds its board with numbers recomputed
+const buildBoard = (
+  rows: number,
+  cols: number,
+  mines: [number, number][],
+  topology: TopologyId
+): BoardFile => {
+  const difficulty: Difficulty = { name: IMPORTED_BOARD_NAME, rows, cols, mines: mines.length, topology };
+  const error = validateDifficulty(difficulty);
+  if (error) throw new Error(`无法使用这个棋盘：${error}`);
+  return { difficulty, board: boardFromMines(rows, cols, mines, topology), hasProgress: false };
+};
+
+// Parses the text format; throws with a readable message when the grid is unusable
+export const parseBoardText = (text: string, topology: TopologyId = DEFAULT_TOPOLOGY): BoardFile => {
+  const tokens: string[][] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') continue;
+    if (line.startsWith('#')) {
+      const match = line.match(TOPOLOGY_COMMENT);
+      if (match) {
+        if (!isTopologyId(match[1])) throw new Error(`不支持的棋盘类型: ${match[1]}。`);
+        topology = match[1];
+      }
+      continue;
+    }
+    tokens.push(/\s/.test(line) ? line.split(/\s+/) : [...line]);
+  }
+
+  const rows = tokens.length;
+  const cols = rows > 0 ? tokens[0].length : 0;
+  if (rows === 0) throw new Error('棋盘文本是空的。');
+  const ragged = tokens.findIndex(row => row.length !== cols);
+  if (ragged !== -1) throw new Error(`第 ${ragged + 1} 行有 ${tokens[ragged].length} 格，与第 1 行的 ${cols} 格不一致。`);
+
+  const mines: [number, number][] = [];
+  tokens.forEach((row, r) => row.forEach((token, c) => {
+    if (token === MINE || token === FLAGGED_MINE) mines.push([r, c]);
+    else if (token !== HIDDEN && token !== FLAGGED_SAFE && !/^[0-8]$/.test(token)) {
+      throw new Error(`第 ${r + 1} 行第 ${c + 1} 列的 "${token}" 无法识别。`);
+    }
+  }));
+
+  const file = buildBoard(rows, cols, mines, topology);
+  tokens.forEach((row, r) => row.forEach((token, c) => {
+    const cell = file.board[r][c];
+    if (token === FLAGGED_MINE || token === FLAGGED_SAFE) {
+      cell.state = CellState.FLAGGED;
+      file.hasProgress = true;
+    } else if (/^[0-8]$/.test(token)) {
+      if (Number(token) !== cell.value) {
+        throw new Error(`第 ${r + 1} 行第 ${c + 1} 列写着 ${token}，但周围有 ${cell.value} 个地雷。`);
+      }
+      cell.state = CellState.REVEALED;
+      file.hasProgress = true;
+    }
+  }));
+  return file;
+};
+
+export const boardToMbf = (board: CellData[][]): Uint8Array => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  if (rows > MBF_MAX_SIZE || cols > MBF_MAX_SIZE) throw new Error(`MBF 格式最多支持 ${MBF_MAX_SIZE}x${MBF_MAX_SIZE} 的棋盘。`);
+  const mines = getMinePositions(board);
+  if (mines.length > MBF_MAX_MINES) throw new Error(`MBF 格式最多支持 ${MBF_MAX_MINES} 个地雷。`);
+
+  const bytes = new Uint8Array(MBF_HEADER_BYTES + mines.length * 2);
+  bytes[0] = cols;
+  bytes[1] = rows;
+  bytes[2] = mines.length >> 8;
+  bytes[3] = mines.length & 0xff;
+  mines.forEach(([r, c], i) => {
+    bytes[MBF_HEADER_BYTES + i * 2] = c;
+    bytes[MBF_HEADER_BYTES + i * 2 + 1] = r;
+  });
+  return bytes;
+};
+
+// MBF carries no topology, so the board is played on the given one
+export const parseMbf = (bytes: Uint8Array, topology: TopologyId = DEFAULT_TOPOLOGY): BoardFile => {
+  if (bytes.length < MBF_HEADER_BYTES) throw new Error('MBF 数据不完整。');
+  const cols = bytes[0];
+  const rows = bytes[1];
+  const count = (bytes[2] << 8) | bytes[3];
+  if (bytes.length !== MBF_HEADER_BYTES + count * 2) {
+    throw new Error(`MBF 数据长度不对：${count} 个地雷需要 ${MBF_HEADER_BYTES + count * 2} 字节，实际 ${bytes.length} 字节。`);
+  }
+
+  const mines: [number, number][] = [];
+  const seen = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    const c = bytes[MBF_HEADER_BYTES + i * 2];
+    const r = bytes[MBF_HEADER_BYTES + i * 2 + 1];
+    if (r >= rows || c >= cols) throw new Error(`MBF 中第 ${i + 1} 个地雷 (${c}, ${r}) 超出了 ${cols}x${rows} 的棋盘。`);
+    if (seen.has(r * cols + c)) throw new Error(`MBF 中的地雷 (${c}, ${r}) 重复出现。`);
+    seen.add(r * cols + c);
+    mines.push([r, c]);
+  }
+  return buildBoard(rows, cols, mines, topology);
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const base64ToBytes = (text: string): Uint8Array | null => {
+  try {
+    return Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+// Pasted text: a grid has several lines, anything on a single line is read as Base64 MBF
+export const parseBoardFile = (text: string, topology: TopologyId = DEFAULT_TOPOLOGY): BoardFile => {
+  const trimmed = text.trim();
+  if (trimmed.includes('\n') || trimmed.startsWith('#')) return parseBoardText(trimmed, topology);
+  const bytes = base64ToBytes(trimmed.replace(/\s+/g, ''));
+  if (!bytes) throw new Error('无法识别的棋盘：既不是文本棋盘，也不是 Base64 编码的 MBF。');
+  return parseMbf(bytes, topology);
+};
+
+export const downloadBoardFile = (content: string | Uint8Array, fileName: string) => {
+  const blob = typeof content === 'string'
+    ? new Blob([content], { type: 'text/plain' })
+    : new Blob([content], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
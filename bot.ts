@@ -0,0 +1,103 @@
+import { AIHint, CellState, GameStatus, HintProviderId, HintRequest, HintSettings } from './types';
+import { MinesweeperGame } from './game';
+import { getSolverHint } from './services/solverService';
+import { HINT_PROVIDERS, requestHint } from './services/hintProvider';
+import { Rng } from './random';
+
+// Autoplay: the hint engine choosing every move. Like the AI button, proven moves always
+// come from the solver; the strategy decides only what happens when a guess is needed.
+// Shared by the browser's autoplay mode and the headless benchmark (cli/benchmark.ts).
+
+export type BotStrategy = 'solver' | 'random' | HintProviderId;
+
+export const BOT_STRATEGIES: Record<BotStrategy, string> = {
+  solver: '本地求解',
+  random: '本地求解 + 随机猜测',
+  gemini: HINT_PROVIDERS.gemini.name,
+  openai: HINT_PROVIDERS.openai.name,
+  mock: HINT_PROVIDERS.mock.name,
+};
+
+export const isBotStrategy = (value: string): value is BotStrategy => value in BOT_STRATEGIES;
+
+export interface BotMove {
+  hint: AIHint;
+  fallback: string | null; // Why the hint provider could not be used, when the solver stepped in
+}
+
+// Baseline for the benchmark: shows what choosing guesses by exact probability is worth
+const randomGuess = (request: HintRequest, rng: Rng): AIHint | null => {
+  const hidden = request.board.flat().filter(cell => cell.state === CellState.HIDDEN || cell.state === CellState.QUESTION);
+  if (hidden.length === 0) return null;
+  const cell = hidden[Math.floor(rng() * hidden.length)];
+  return { row: cell.row, col: cell.col, action: 'reveal', reasoning: '没有确定的步骤，随机猜测。', source: 'solver', certain: false };
+};
+
+export const chooseBotMove = async (
+  request: HintRequest,
+  strategy: BotStrategy,
+  settings: HintSettings,
+  rng: Rng = Math.random
+): Promise<BotMove | null> => {
+  const solverHint = getSolverHint(request.board, request.totalMines, request.topology);
+  if (!solverHint || solverHint.certain || strategy === 'solver') {
+    return solverHint && { hint: solverHint, fallback: null };
+  }
+
+  if (strategy === 'random') {
+    const hint = randomGuess(request, rng);
+    return hint && { hint, fallback: null };
+  }
+
+  try {
+    return { hint: await requestHint(request, { ...settings, provider: strategy }), fallback: null };
+  } catch (error) {
+    return { hint: solverHint, fallback: error instanceof Error ? error.message : `${BOT_STRATEGIES[strategy]} 请求失败。` };
+  }
+};
+
+export interface BotGameResult {
+  won: boolean;
+  timeMs: number;
+  moves: number;
+  guesses: number; // Moves that were not proven safe (or proven mines) when played
+  fallbacks: number; // Guesses the solver made because the hint provider failed
+}
+
+// Plays a game to the end without a UI
+export const playBotGame = async (
+  game: MinesweeperGame,
+  strategy: BotStrategy,
+  settings: HintSettings,
+  rng: Rng = Math.random
+): Promise<BotGameResult> => {
+  const { rows, cols, mines, topology } = game.difficulty;
+  const result: BotGameResult = { won: false, timeMs: 0, moves: 0, guesses: 0, fallbacks: 0 };
+  // Every cell is revealed or flagged at most once (plus one unflag), so this only stops a stuck bot
+  const maxMoves = rows * cols * 3;
+
+  while (!game.isOver && result.moves < maxMoves) {
+    const move = await chooseBotMove(
+      { board: game.board, minesLeft: game.minesLeft, totalMines: mines, topology },
+      strategy,
+      settings,
+      rng
+    );
+    if (!move) break;
+
+    const { row, col, action, certain } = move.hint;
+    // Same as a click: revealing a flagged cell first takes the flag off
+    const changed = action === 'flag' || game.board[row][col].state === CellState.FLAGGED
+      ? game.flag(row, col)
+      : game.reveal(row, col);
+    if (!changed) break;
+
+    result.moves++;
+    if (!certain) result.guesses++;
+    if (move.fallback) result.fallbacks++;
+  }
+
+  result.won = game.status === GameStatus.WON;
+  result.timeMs = game.elapsedMs;
+  return result;
+};
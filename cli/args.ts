@@ -0,0 +1,61 @@
+import { Difficulty, TopologyId } from '../types';
+import { DIFFICULTIES, validateDifficulty } from '../gameEngine';
+import { isTopologyId } from '../topology';
+
+// Command-line parsing shared by the terminal client and the benchmark
+
+export interface ParsedArgs {
+  args: Map<string, string>; // --name value
+  flags: Set<string>; // --name without a value
+}
+
+export const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+// Reads "--name value" pairs and bare "--flag"s; prints the help and exits on --help
+export const parseFlags = (argv: string[], help: string): ParsedArgs => {
+  const args = new Map<string, string>();
+  const flags = new Set<string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) fail(`无法识别的参数: ${arg}\n\n${help}`);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      flags.add(arg.slice(2));
+    } else {
+      args.set(arg.slice(2), next);
+      i++;
+    }
+  }
+  if (flags.has('help')) {
+    console.log(help);
+    process.exit(0);
+  }
+  return { args, flags };
+};
+
+// A preset level, optionally overridden by --rows/--cols/--mines, on the --topology board
+export const parseDifficulty = (args: Map<string, string>, level: string): Difficulty => {
+  const preset = DIFFICULTIES[level.toUpperCase()] ?? fail(`未知的难度: ${level}`);
+  const topology = args.get('topology') ?? 'square';
+  if (!isTopologyId(topology)) fail(`未知的棋盘类型: ${topology}`);
+
+  const difficulty: Difficulty = {
+    name: args.has('rows') || args.has('cols') || args.has('mines') ? '自定义' : preset.name,
+    rows: Number(args.get('rows') ?? preset.rows),
+    cols: Number(args.get('cols') ?? preset.cols),
+    mines: Number(args.get('mines') ?? preset.mines),
+    topology: topology as TopologyId,
+  };
+  const error = validateDifficulty(difficulty);
+  if (error) fail(error);
+  return difficulty;
+};
+
+export const parseSeed = (args: Map<string, string>): number | undefined => {
+  const seed = args.has('seed') ? Number(args.get('seed')) : undefined;
+  if (seed !== undefined && !(Number.isInteger(seed) && seed >= 0)) fail('种子必须是非负整数。');
+  return seed;
+};
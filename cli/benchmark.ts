@@ -0,0 +1,111 @@
+import { Difficulty, HintSettings } from '../types';
+import { MinesweeperGame } from '../game';
+import { BOT_STRATEGIES, BotGameResult, BotStrategy, isBotStrategy, playBotGame } from '../bot';
+import { DEFAULT_HINT_SETTINGS } from '../services/hintProvider';
+import { createRng } from '../random';
+import { getTopology } from '../topology';
+import { fail, parseDifficulty, parseFlags, parseSeed } from './args';
+
+// Headless benchmark: every strategy plays the same seeded games on every level, so
+// win rates, times and guess counts can be compared directly.
+//   npm run benchmark -- --games 200 --strategies solver,random
+//   npm run benchmark -- --levels beginner --strategies openai --model qwen2.5 --games 20
+
+const HELP = `用法: npm run benchmark -- [参数]
+  --games <n>                           每个难度、每种策略的局数（默认 100）
+  --levels beginner,intermediate,expert 难度列表（默认全部）
+  --rows <n> --cols <n> --mines <n>     自定义难度（覆盖预设）
+  --topology square|hex|torus|knight    棋盘类型
+  --strategies <列表>                   ${Object.keys(BOT_STRATEGIES).join(', ')}（默认 solver,random）
+  --seed <n>                            第一局的种子，之后依次加一（默认 1）
+  --no-guess                            无猜布局
+
+需要猜测时调用 AI 的策略:
+  --model <名称>        模型（gemini 或 openai）
+  --endpoint <地址>     OpenAI 兼容接口地址（默认 ${DEFAULT_HINT_SETTINGS.openai.endpoint}）
+  --api-key <密钥>      API Key；Gemini 也可使用环境变量 GEMINI_API_KEY
+  --timeout <秒>        每次回答的超时
+  --attempts <n>        无效提示的最多尝试次数`;
+
+interface Summary {
+  difficulty: Difficulty;
+  strategy: BotStrategy;
+  results: BotGameResult[];
+}
+
+const parseHintSettings = (args: Map<string, string>): HintSettings => {
+  const settings: HintSettings = {
+    ...DEFAULT_HINT_SETTINGS,
+    gemini: { ...DEFAULT_HINT_SETTINGS.gemini, apiKey: process.env.GEMINI_API_KEY ?? '' },
+    openai: { ...DEFAULT_HINT_SETTINGS.openai },
+  };
+  const model = args.get('model');
+  const apiKey = args.get('api-key');
+  if (model) settings.gemini.model = settings.openai.model = model;
+  if (apiKey) settings.gemini.apiKey = settings.openai.apiKey = apiKey;
+  if (args.has('endpoint')) settings.openai.endpoint = args.get('endpoint')!;
+  if (args.has('timeout')) {
+    settings.timeoutMs = Number(args.get('timeout')) * 1000;
+    if (!(settings.timeoutMs > 0)) fail('超时必须是正数。');
+  }
+  if (args.has('attempts')) {
+    settings.maxAttempts = Number(args.get('attempts'));
+    if (!(Number.isInteger(settings.maxAttempts) && settings.maxAttempts >= 1)) fail('尝试次数必须是正整数。');
+  }
+  return settings;
+};
+
+const average = (values: number[]): number => values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+const summarize = ({ difficulty, strategy, results }: Summary) => {
+  const wins = results.filter(r => r.won);
+  return {
+    '难度': `${difficulty.name} ${difficulty.rows}x${difficulty.cols}/${difficulty.mines}`,
+    '策略': BOT_STRATEGIES[strategy],
+    '局数': results.length,
+    '胜率': `${(wins.length / results.length * 100).toFixed(1)}%`,
+    '平均用时(秒)': (average(results.map(r => r.timeMs)) / 1000).toFixed(3),
+    '胜局用时(秒)': wins.length > 0 ? (average(wins.map(r => r.timeMs)) / 1000).toFixed(3) : '-',
+    '平均猜测': average(results.map(r => r.guesses)).toFixed(2),
+    '平均步数': average(results.map(r => r.moves)).toFixed(1),
+    'AI 失败': results.reduce((sum, r) => sum + r.fallbacks, 0),
+  };
+};
+
+const main = async () => {
+  const { args, flags } = parseFlags(process.argv.slice(2), HELP);
+
+  const games = Number(args.get('games') ?? 100);
+  if (!(Number.isInteger(games) && games >= 1)) fail('局数必须是正整数。');
+  const levels = (args.get('levels') ?? 'beginner,intermediate,expert').split(',');
+  const difficulties = levels.map(level => parseDifficulty(args, level));
+  const strategies = (args.get('strategies') ?? 'solver,random').split(',').map(s => {
+    if (!isBotStrategy(s)) fail(`未知的策略: ${s}`);
+    return s as BotStrategy;
+  });
+  const firstSeed = parseSeed(args) ?? 1;
+  const noGuess = flags.has('no-guess');
+  const settings = parseHintSettings(args);
+
+  console.log(`${games} 局 × ${difficulties.length} 个难度 × ${strategies.length} 种策略 · ${getTopology(difficulties[0].topology).name}` +
+    `${noGuess ? ' · 无猜' : ''} · 种子 ${firstSeed}-${firstSeed + games - 1}`);
+
+  const summaries: Summary[] = [];
+  for (const difficulty of difficulties) {
+    for (const strategy of strategies) {
+      const summary: Summary = { difficulty, strategy, results: [] };
+      for (let i = 0; i < games; i++) {
+        const seed = firstSeed + i;
+        const game = new MinesweeperGame({ difficulty, seed, noGuess });
+        summary.results.push(await playBotGame(game, strategy, settings, createRng(seed)));
+        process.stderr.write(`\r${difficulty.name} ${BOT_STRATEGIES[strategy]} ${i + 1}/${games}   `);
+      }
+      process.stderr.write('\n');
+      summaries.push(summary);
+    }
+  }
+
+  console.table(summaries.map(summarize));
+};
+
+main().catch(error => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,160 @@
+import { readFileSync } from 'node:fs';
+import readline from 'node:readline';
+import { CellData, CellState, CellValue, Difficulty, GameStatus } from '../types';
+import { DIFFICULTIES } from '../gameEngine';
+import { MinesweeperGame } from '../game';
+import { GameCode, codeMatchesDifficulty, decodeGameCode } from '../gameCode';
+import { BoardFile, parseBoardFile, parseMbf } from '../boardFile';
+import { getTopology } from '../topology';
+import { fail, parseDifficulty, parseFlags, parseSeed } from './args';
+
+// Terminal front end: plays through the same MinesweeperGame class as the browser.
+// Commands are read line by line, so games can also be scripted through a pipe:
+//   npm run terminal -- --level expert --seed 42
+//   printf 'r 5 5\nf 1 1\nq\n' | npm run terminal
+
+const HELP = `命令（行、列从 1 开始）:
+  r <行> <列>   揭开格子
+  f <行> <列>   插旗 / 取消插旗
+  c <行> <列>   双击数字（和弦）
+  n             新的一局
+  p             重新显示棋盘
+  h             帮助
+  q             退出
+
+启动参数:
+  --level beginner|intermediate|expert   预设难度（默认 beginner）
+  --rows <n> --cols <n> --mines <n>      自定义难度
+  --topology square|hex|torus|knight     棋盘类型
+  --seed <n>                             固定布局种子
+  --no-guess                             无猜布局
+  --code <对局代码>                      载入对局代码
+  --board <文件>                         载入棋盘文件（文本棋盘、.mbf 或 Base64）`;
+
+interface CliOptions {
+  difficulty: Difficulty;
+  seed?: number;
+  noGuess: boolean;
+  code: string | null;
+  board: string | null; // Path of a board file
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const { args, flags } = parseFlags(argv, HELP);
+  return {
+    difficulty: parseDifficulty(args, args.get('level') ?? 'beginner'),
+    seed: parseSeed(args),
+    noGuess: flags.has('no-guess'),
+    code: args.get('code') ?? null,
+    board: args.get('board') ?? null,
+  };
+};
+
+const cellSymbol = (cell: CellData): string => {
+  if (cell.state === CellState.FLAGGED) return 'F';
+  if (cell.state === CellState.QUESTION) return '?';
+  if (cell.state === CellState.HIDDEN) return '#';
+  if (cell.value === CellValue.MINE) return cell.isExploded ? 'X' : '*';
+  return cell.value === 0 ? '.' : String(cell.value);
+};
+
+// Two characters per cell; hex boards indent odd rows by half a cell, like the browser layout
+const renderBoard = (game: MinesweeperGame): string => {
+  const { cols, topology } = game.difficulty;
+  const isHex = getTopology(topology).layout === 'hex';
+  const label = (n: number) => String(n).padStart(3);
+  const header = '    ' + Array.from({ length: cols }, (_, c) => String((c + 1) % 100).padStart(2)).join('');
+  const lines = game.board.map((row, r) => {
+    const indent = isHex && r % 2 === 1 ? ' ' : '';
+    return `${label(r + 1)} ${indent}` + row.map(cell => ` ${cellSymbol(cell)}`).join('');
+  });
+  const status = `剩余地雷 ${game.minesLeft} · 用时 ${(game.elapsedMs / 1000).toFixed(1)}s`;
+  return [header, ...lines, status].join('\n');
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  // A code brings its own board size and topology
+  let code: GameCode | null = null;
+  if (options.code) {
+    code = decodeGameCode(options.code) ?? fail('无效的对局代码。');
+    const { rows, cols, mines, topology } = code;
+    const preset = Object.values(DIFFICULTIES).find(d => codeMatchesDifficulty(code!, { ...d, topology }));
+    options.difficulty = { name: preset?.name ?? '自定义', rows, cols, mines, topology };
+  }
+
+  const createGame = (): MinesweeperGame => {
+    const game = new MinesweeperGame({ difficulty: options.difficulty, seed: options.seed, noGuess: options.noGuess });
+    game.on('started', ({ gameCode, notice }) => {
+      if (gameCode) console.log(`对局代码: ${gameCode}`);
+      if (notice) console.log(notice);
+    });
+    game.on('cellsRevealed', ({ cells }) => console.log(`揭开了 ${cells.length} 个格子。`));
+    game.on('flagChanged', ({ row, col, state }) => {
+      console.log(`(${row + 1}, ${col + 1}) ${state === CellState.FLAGGED ? '已插旗' : '已取消插旗'}。`);
+    });
+    game.on('won', ({ timeMs }) => console.log(`胜利！用时 ${(timeMs / 1000).toFixed(2)} 秒。输入 n 再来一局。`));
+    game.on('lost', ({ row, col }) => console.log(`踩雷了 (${row + 1}, ${col + 1})！输入 n 再来一局。`));
+
+    const { name, rows, cols, mines, topology } = options.difficulty;
+    console.log(`\n${name} ${rows}x${cols} / ${mines} 雷 · ${getTopology(topology).name}`);
+    return game;
+  };
+
+  // So does a board file; MBF files are binary, everything else is read as text
+  let boardFile: BoardFile | null = null;
+  if (options.board) {
+    const path = options.board;
+    try {
+      const topology = options.difficulty.topology;
+      boardFile = path.toLowerCase().endsWith('.mbf')
+        ? parseMbf(new Uint8Array(readFileSync(path)), topology)
+        : parseBoardFile(readFileSync(path, 'utf8'), topology);
+    } catch (error) {
+      fail(error instanceof Error ? error.message : `无法读取棋盘文件 ${path}。`);
+    }
+    options.difficulty = boardFile.difficulty;
+  }
+
+  let game = createGame();
+  if (code) game.startFromCode(code);
+  if (boardFile) game.startFromLayout(boardFile.board);
+  console.log(renderBoard(game));
+  console.log('输入 h 查看命令。');
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' });
+  rl.prompt();
+  rl.on('line', line => {
+    const [command, ...rest] = line.trim().split(/\s+/);
+    const [row, col] = rest.map(n => Number(n) - 1);
+    const needsCell = command === 'r' || command === 'f' || command === 'c';
+
+    if (needsCell && !(Number.isInteger(row) && Number.isInteger(col))) {
+      console.log('请给出行和列，例如: r 3 5');
+    } else if (needsCell) {
+      const changed = command === 'r' ? game.reveal(row, col) : command === 'f' ? game.flag(row, col) : game.chord(row, col);
+      if (!changed) console.log('这一步没有改变棋盘。');
+      console.log(renderBoard(game));
+    } else if (command === 'n') {
+      game = createGame();
+      console.log(renderBoard(game));
+    } else if (command === 'p') {
+      console.log(renderBoard(game));
+    } else if (command === 'h') {
+      console.log(HELP);
+    } else if (command === 'q') {
+      rl.close();
+      return;
+    } else if (command) {
+      console.log(`未知命令: ${command}，输入 h 查看帮助。`);
+    }
+    rl.prompt();
+  });
+  rl.on('close', () => {
+    if (game.status === GameStatus.PLAYING) console.log(`对局未完成。对局代码: ${game.gameCode}`);
+    process.exit(0);
+  });
+};
+
+main();
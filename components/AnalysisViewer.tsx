@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { HintSettings } from '../types';
+import { Replay } from '../replay';
+import { GameAnalysis, MOVE_VERDICTS, MoveVerdict, analyzeGameInSlices, describeFatalMove } from '../analysis';
+import { cellName } from '../solver';
+import { buildLossPrompt } from '../services/hintPrompt';
+import { HINT_PROVIDERS, requestExplanation } from '../services/hintProvider';
+import MineCell from './MineCell';
+import BoardLayout from './BoardLayout';
+import { ChevronLeft, ChevronRight, Sparkles, X } from 'lucide-react';
+
+interface AnalysisViewerProps {
+  replay: Replay;
+  settings: HintSettings; // Provider for the optional written commentary
+  onClose: () => void;
+}
+
+const VERDICT_COLORS: Record<MoveVerdict, string> = {
+  opening: 'bg-slate-400',
+  forced: 'bg-emerald-500',
+  guess: 'bg-amber-400',
+  blunder: 'bg-red-500',
+};
+
+const noop = () => {};
+
+const AnalysisViewer: React.FC<AnalysisViewerProps> = ({ replay, settings, onClose }) => {
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [judged, setJudged] = useState(0); // Actions analysed so far
+  const [selected, setSelected] = useState(0);
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [explaining, setExplaining] = useState(false);
+
+  // The solver runs on every position, in slices so the page keeps responding; closing stops it
+  useEffect(() => {
+    setAnalysis(null);
+    setExplanation(null);
+    setJudged(0);
+    const controller = new AbortController();
+    analyzeGameInSlices(replay, controller.signal, setJudged)
+      .then(result => {
+        setAnalysis(result);
+        setSelected(Math.max(0, result.moves.length - 1));
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) console.error('Game analysis failed:', error);
+      });
+    return () => controller.abort();
+  }, [replay]);
+
+  const explain = async () => {
+    if (!analysis?.fatal) return;
+    setExplaining(true);
+    try {
+      setExplanation(await requestExplanation(buildLossPrompt(analysis.fatal, replay.difficulty.mines, replay.difficulty.topology), settings));
+    } catch (error) {
+      setExplanation(error instanceof Error ? error.message : '解说请求失败。');
+    } finally {
+      setExplaining(false);
+    }
+  };
+
+  const move = analysis?.moves[selected];
+  const openedKeys = new Set(move?.opened.map(ref => `${ref.row}-${ref.col}`));
+  const solvable = new Map(move?.solvable.map(d => [`${d.row}-${d.col}`, d.isMine]));
+
+  const navButton = 'p-1 bg-slate-200 border-2 border-slate-500 rounded disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl max-w-full max-h-[95vh] overflow-y-auto flex flex-col gap-2">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>复盘分析 · {replay.difficulty.name} {replay.difficulty.rows}x{replay.difficulty.cols}/{replay.difficulty.mines}</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        {!analysis && (
+          <div className="text-xs text-slate-600">正在分析每一步…（{judged} / {replay.actions.length}）</div>
+        )}
+
+        {analysis && (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs text-slate-700">
+              {(Object.keys(MOVE_VERDICTS) as MoveVerdict[]).map(verdict => (
+                <span key={verdict} title={MOVE_VERDICTS[verdict].description} className="flex items-center gap-1">
+                  <span className={`inline-block w-3 h-3 rounded-sm ${VERDICT_COLORS[verdict]}`} />
+                  {MOVE_VERDICTS[verdict].name} <span className="font-mono font-bold">{analysis.counts[verdict]}</span>
+                </span>
+              ))}
+            </div>
+
+            {analysis.fatal && (
+              <div className="flex flex-col gap-1 max-w-xl text-xs px-2 py-1 bg-red-50 border border-red-300 rounded" role="status">
+                <span>
+                  <span className="font-bold">致命一步：</span>{describeFatalMove(analysis.fatal)}
+                  {analysis.fatal.solvable.length > 0 && ' 棋盘上的绿圈是当时可以证明安全的格子，黄圈是可以证明的地雷。'}
+                </span>
+                <button
+                  onClick={explain}
+                  disabled={explaining}
+                  title={`请 ${HINT_PROVIDERS[settings.provider].name} 写一段点评`}
+                  className="self-start flex items-center gap-1 px-2 py-0.5 font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50"
+                >
+                  <Sparkles size={12} /> {explaining ? '解说中…' : 'AI 解说'}
+                </button>
+                {explanation && <div className="whitespace-pre-wrap text-slate-700">{explanation}</div>}
+              </div>
+            )}
+
+            {move && (
+              <>
+                <div className="overflow-auto border-t-slate-500 border-l-slate-500 border-b-white border-r-white border-4 bg-[color:var(--ms-board)] no-scrollbar">
+                  <BoardLayout
+                    board={move.board}
+                    topology={replay.difficulty.topology}
+                    className="pointer-events-none"
+                    gridProps={{ 'aria-hidden': true }}
+                    renderCell={cell => {
+                      const key = `${cell.row}-${cell.col}`;
+                      const isMine = solvable.get(key);
+                      const ring = openedKeys.has(key)
+                        ? (move.hitMine ? 'ring-red-600' : 'ring-sky-500')
+                        : isMine === undefined ? '' : isMine ? 'ring-amber-400' : 'ring-emerald-500';
+                      return (
+                        <div key={key} className={ring ? `relative z-10 ring-4 ${ring}` : 'relative'}>
+                          <MineCell data={cell} onClick={noop} onContextMenu={noop} />
+                        </div>
+                      );
+                    }}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2 text-xs text-slate-700">
+                  <button onClick={() => setSelected(i => i - 1)} disabled={selected === 0} title="上一步" className={navButton}>
+                    <ChevronLeft size={14} />
+                  </button>
+                  <input
+                    type="range"
+                    min={0}
+                    max={analysis.moves.length - 1}
+                    value={selected}
+                    onChange={(e) => setSelected(Number(e.target.value))}
+                    className="flex-1"
+                  />
+                  <button onClick={() => setSelected(i => i + 1)} disabled={selected === analysis.moves.length - 1} title="下一步" className={navButton}>
+                    <ChevronRight size={14} />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-px max-w-xl" aria-hidden>
+                  {analysis.moves.map((m, i) => (
+                    <button
+                      key={m.actionIndex}
+                      onClick={() => setSelected(i)}
+                      title={`第 ${i + 1} 步 · ${MOVE_VERDICTS[m.verdict].name}`}
+                      className={`w-2 h-4 ${VERDICT_COLORS[m.verdict]} ${i === selected ? 'outline outline-2 outline-slate-800' : ''}`}
+                    />
+                  ))}
+                </div>
+
+                <div className="text-xs text-slate-700">
+                  第 {selected + 1} / {analysis.moves.length} 步 ·{' '}
+                  <span className="font-bold">{MOVE_VERDICTS[move.verdict].name}</span> ·{' '}
+                  {move.action.type === 'chord' ? '双击' : '点开'} {cellName(move.action)}
+                  {move.risk !== null && ` · 踩雷概率 ${(move.risk * 100).toFixed(1)}%`}
+                  {move.hitMine && ' · 💥'}
+                  <div className="text-slate-500">{MOVE_VERDICTS[move.verdict].description}</div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisViewer;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { CellData, TopologyId } from '../types';
+import {
+  BoardFile,
+  boardToMbf,
+  boardToText,
+  bytesToBase64,
+  downloadBoardFile,
+  parseBoardFile,
+  parseMbf,
+} from '../boardFile';
+import { Copy, Download, Upload, X } from 'lucide-react';
+
+type ExportFormat = 'progress' | 'layout' | 'mbf';
+
+interface BoardFileDialogProps {
+  board: CellData[][];
+  topology?: TopologyId;
+  hasLayout: boolean; // Mines are dealt, so there is something to export
+  inProgress: boolean; // Exporting now shows the mines of a game still being played
+  onExport: () => void; // Called once the layout is shown
+  onImport: (file: BoardFile) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  progress: '文本（含进度）',
+  layout: '文本（仅布局）',
+  mbf: 'MBF（Base64）',
+};
+
+const BoardFileDialog: React.FC<BoardFileDialogProps> = ({
+  board, topology, hasLayout, inProgress, onExport, onImport, onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('progress');
+  const [revealed, setRevealed] = useState(!inProgress);
+  const [importText, setImportText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // MBF has size limits, so building it can fail
+  let exported = '';
+  let exportError: string | null = null;
+  if (hasLayout && revealed) {
+    try {
+      exported = format === 'mbf' ? bytesToBase64(boardToMbf(board)) : boardToText(board, topology, format === 'progress');
+    } catch (e) {
+      exportError = e instanceof Error ? e.message : '无法导出这个棋盘。';
+    }
+  }
+
+  const reveal = () => {
+    onExport();
+    setRevealed(true);
+  };
+
+  const download = () => {
+    if (format === 'mbf') downloadBoardFile(boardToMbf(board), 'minesweeper-board.mbf');
+    else downloadBoardFile(exported, 'minesweeper-board.txt');
+  };
+
+  const load = (read: () => BoardFile) => {
+    try {
+      onImport(read());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '无法读取棋盘。');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.name.toLowerCase().endsWith('.mbf')) {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      load(() => parseMbf(bytes, topology));
+    } else {
+      const text = await file.text();
+      load(() => parseBoardFile(text, topology));
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-0.5 text-xs font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-md flex flex-col gap-3">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>棋盘导入 / 导出</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center gap-2 text-xs font-bold text-slate-700">
+            导出
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="px-1 py-0.5 border-2 border-slate-400 bg-white text-xs font-normal focus:outline-none"
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(key => (
+                <option key={key} value={key}>{FORMAT_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {!hasLayout ? (
+            <div className="text-xs text-slate-600">首次点击后才有地雷布局可以导出。</div>
+          ) : !revealed ? (
+            <div className="flex items-center gap-2 text-xs text-slate-600">
+              <span className="flex-1">导出会显示本局的地雷位置，本局将不计入排行榜。</span>
+              <button onClick={reveal} className={buttonClass}>仍然导出</button>
+            </div>
+          ) : exportError ? (
+            <div className="text-xs text-red-700">{exportError}</div>
+          ) : (
+            <>
+              <textarea
+                readOnly
+                value={exported}
+                rows={6}
+                className="px-1 py-0.5 border-2 border-slate-400 bg-white font-mono text-xs whitespace-pre overflow-auto focus:outline-none"
+              />
+              <div className="flex gap-2">
+                <button onClick={() => navigator.clipboard?.writeText(exported)} className={buttonClass}>
+                  <Copy size={12} /> 复制
+                </button>
+                <button onClick={download} className={buttonClass}>
+                  <Download size={12} /> {format === 'mbf' ? '下载 .mbf' : '下载 .txt'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-slate-700">导入</span>
+          <textarea
+            value={importText}
+            onChange={(e) => { setImportText(e.target.value); setError(null); }}
+            rows={6}
+            placeholder={'粘贴文本棋盘（H 隐藏，* 地雷，F 插旗的地雷，X 插错的旗，0-8 已揭开）\n或 Base64 编码的 MBF'}
+            className="px-1 py-0.5 border-2 border-slate-400 bg-white font-mono text-xs whitespace-pre overflow-auto focus:outline-none"
+          />
+          {error && <div className="text-xs text-red-700">{error}</div>}
+          <div className="flex gap-2">
+            <label className={`${buttonClass} cursor-pointer`}>
+              <Upload size={12} /> 选择文件
+              <input type="file" accept=".txt,.mbf,text/plain" className="hidden" onChange={handleFile} />
+            </label>
+            <button
+              onClick={() => load(() => parseBoardFile(importText, topology))}
+              disabled={!importText.trim()}
+              className="flex-1 px-2 py-0.5 text-xs font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50"
+            >
+              载入并开始
+            </button>
+          </div>
+          <div className="text-[10px] text-slate-500">
+            地雷数按棋盘重新统计，数字会重新计算。导入的棋盘首次点击不保证安全；MBF 不含棋盘类型，按当前类型载入。
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardFileDialog;
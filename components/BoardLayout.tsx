@@ -0,0 +1,33 @@
+import React from 'react';
+import { CellData, TopologyId } from '../types';
+import { getTopology } from '../topology';
+
+interface BoardLayoutProps {
+  board: CellData[][];
+  topology?: TopologyId;
+  renderCell: (cell: CellData) => React.ReactNode; // Must return a keyed element
+  className?: string;
+  gridProps?: React.HTMLAttributes<HTMLDivElement>; // Focus, keyboard and ARIA attributes for the grid element
+}
+
+// Lays cells out row by row. Hex boards shift odd rows half a cell to the right
+// (half of MineCell's w-8 / sm:w-10), padding even rows so every row has the same width.
+const BoardLayout: React.FC<BoardLayoutProps> = ({ board, topology, renderCell, className = '', gridProps }) => {
+  const isHex = getTopology(topology).layout === 'hex';
+
+  return (
+    <div role="grid" {...gridProps} className={`flex flex-col ${className}`} style={{ width: 'max-content' }}>
+      {board.map((row, rIndex) => (
+        <div
+          key={rIndex}
+          role="row"
+          className={`flex ${isHex ? (rIndex % 2 === 1 ? 'pl-4 sm:pl-5' : 'pr-4 sm:pr-5') : ''}`}
+        >
+          {row.map(renderCell)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BoardLayout;
@@ -0,0 +1,314 @@
+import React, { useCallback, useContext, useEffect, useLayoutEffect, useRef } from 'react';
+import { CellData, CellRef, CellState, CellValue, HintMove, TopologyId } from '../types';
+import { getTopology } from '../topology';
+import { ThemeGlyph } from '../theme';
+import { ThemeContext } from './ThemeContext';
+
+// Boards with more cells than this are drawn on a canvas instead of one MineCell per cell
+export const CANVAS_MIN_CELLS = 10000;
+
+interface CanvasBoardProps {
+  board: CellData[][];
+  topology?: TopologyId;
+  scrollRef: React.RefObject<HTMLDivElement | null>; // The scrolling container the board sits in
+  cursor: CellRef;
+  showCursor: boolean;
+  hintMoves?: HintMove[]; // Ringed like the hint moves of the DOM board
+  highlights?: CellRef[]; // Cells the coach names, ringed in violet
+  onClick: (r: number, c: number) => void;
+  onContextMenu: (r: number, c: number) => void;
+  onChord?: (r: number, c: number) => void;
+  canvasProps?: React.HTMLAttributes<HTMLCanvasElement>; // Focus, keyboard and ARIA attributes
+}
+
+const CELL = 32; // MineCell's w-8 / h-8
+const LONG_PRESS_MS = 400;
+
+// The rings' Tailwind colours in App; cells take theirs from the theme
+const COLORS = {
+  hintReveal: '#3b82f6', // blue-500
+  hintFlag: '#ef4444', // red-500
+  hintGuess: '#fbbf24', // amber-400
+  highlight: '#8b5cf6', // violet-500
+  cursor: '#0ea5e9', // sky-500
+};
+
+
+const cellLabel = (cell: CellData, mine: ThemeGlyph, flag: ThemeGlyph): ThemeGlyph => {
+  if (cell.state === CellState.FLAGGED) return flag;
+  if (cell.state === CellState.QUESTION) return '?';
+  if (cell.state === CellState.HIDDEN) return '';
+  if (cell.value === CellValue.MINE) return mine;
+  return cell.value === 0 ? '' : String(cell.value);
+};
+
+// SVG glyphs are parsed once per path
+const glyphPaths = new Map<string, Path2D>();
+const glyphPath = (path: string) => {
+  let parsed = glyphPaths.get(path);
+  if (!parsed) {
+    parsed = new Path2D(path);
+    glyphPaths.set(path, parsed);
+  }
+  return parsed;
+};
+
+// Windowed renderer for huge boards: a full-size spacer keeps the container's scrolling
+// (and App's drag-to-scroll) as it is, while a viewport-sized canvas stays stuck to the
+// visible area and only the cells inside it are drawn, once per animation frame.
+const CanvasBoard: React.FC<CanvasBoardProps> = ({
+  board, topology, scrollRef, cursor, showCursor, hintMoves, highlights, onClick, onContextMenu, onChord, canvasProps,
+}) => {
+  const theme = useContext(ThemeContext);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frame = useRef<number | null>(null);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isLongPress = useRef(false);
+  // Set while a left+right chord is in progress, so neither button also reveals or flags
+  const isChording = useRef(false);
+  const pressStart = useRef<{ x: number; y: number } | null>(null);
+
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const isHex = getTopology(topology).layout === 'hex';
+  // Hex boards shift odd rows half a cell to the right, like BoardLayout
+  const rowOffset = (r: number) => (isHex && r % 2 === 1 ? CELL / 2 : 0);
+  const width = cols * CELL + (isHex ? CELL / 2 : 0);
+  const height = rows * CELL;
+
+  const draw = useCallback(() => {
+    frame.current = null;
+    const canvas = canvasRef.current;
+    const container = scrollRef.current;
+    if (!canvas || !container) return;
+
+    const viewWidth = Math.min(container.clientWidth, width);
+    const viewHeight = Math.min(container.clientHeight, height);
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(viewWidth * ratio) || canvas.height !== Math.round(viewHeight * ratio)) {
+      canvas.width = Math.round(viewWidth * ratio);
+      canvas.height = Math.round(viewHeight * ratio);
+      canvas.style.width = `${viewWidth}px`;
+      canvas.style.height = `${viewHeight}px`;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const left = container.scrollLeft;
+    const top = container.scrollTop;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    const { cell: colors, numbers, glyphs } = theme;
+    ctx.fillStyle = theme.board;
+    ctx.fillRect(0, 0, viewWidth, viewHeight);
+    ctx.font = 'bold 18px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const firstRow = Math.max(0, Math.floor(top / CELL));
+    const lastRow = Math.min(rows - 1, Math.floor((top + viewHeight) / CELL));
+    for (let r = firstRow; r <= lastRow; r++) {
+      const shift = rowOffset(r);
+      const firstCol = Math.max(0, Math.floor((left - shift) / CELL));
+      const lastCol = Math.min(cols - 1, Math.floor((left + viewWidth - shift) / CELL));
+      const y = r * CELL - top;
+      for (let c = firstCol; c <= lastCol; c++) {
+        const cell = board[r][c];
+        const x = c * CELL + shift - left;
+        if (cell.state === CellState.REVEALED) {
+          ctx.fillStyle = colors.grid;
+          ctx.fillRect(x, y, CELL, CELL);
+          ctx.fillStyle = cell.isExploded ? colors.exploded : colors.revealed;
+          ctx.fillRect(x + 1, y + 1, CELL - 2, CELL - 2);
+        } else {
+          // Raised bevel: light top-left edges, dark bottom-right edges
+          ctx.fillStyle = colors.shade;
+          ctx.fillRect(x, y, CELL, CELL);
+          ctx.fillStyle = colors.light;
+          ctx.fillRect(x, y, CELL - 3, 3);
+          ctx.fillRect(x, y, 3, CELL - 3);
+          ctx.fillStyle = colors.hidden;
+          ctx.fillRect(x + 3, y + 3, CELL - 6, CELL - 6);
+        }
+        const label = cellLabel(cell, glyphs.mine, glyphs.flag);
+        if (typeof label !== 'string') {
+          // 24x24 path drawn at the 18px of the text glyphs, centred in the cell
+          ctx.save();
+          ctx.translate(x + (CELL - 18) / 2, y + (CELL - 18) / 2);
+          ctx.scale(18 / 24, 18 / 24);
+          ctx.fillStyle = label.color;
+          ctx.fill(glyphPath(label.path));
+          ctx.restore();
+        } else if (label) {
+          ctx.fillStyle = cell.state === CellState.REVEALED && cell.value > 0 ? numbers[cell.value - 1] : colors.mark;
+          ctx.fillText(label, x + CELL / 2, y + CELL / 2 + 1);
+        }
+      }
+    }
+
+    const ring = (ref: CellRef, color: string, lineWidth: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      const x = ref.col * CELL + rowOffset(ref.row) - left;
+      const y = ref.row * CELL - top;
+      ctx.strokeRect(x + lineWidth / 2, y + lineWidth / 2, CELL - lineWidth, CELL - lineWidth);
+    };
+    highlights?.forEach(ref => ring(ref, COLORS.highlight, 4));
+    hintMoves?.forEach(move => {
+      if (!move.certain) ring(move, COLORS.hintGuess, 2);
+      else ring(move, move.action === 'flag' ? COLORS.hintFlag : COLORS.hintReveal, 4);
+    });
+    if (showCursor) ring(cursor, COLORS.cursor, 3);
+  }, [board, theme, scrollRef, width, height, rows, cols, isHex, cursor, showCursor, hintMoves, highlights]);
+
+  const scheduleDraw = useCallback(() => {
+    if (frame.current === null) frame.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  useLayoutEffect(() => {
+    scheduleDraw();
+  }, [scheduleDraw]);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(scheduleDraw);
+    observer.observe(container);
+    container.addEventListener('scroll', scheduleDraw, { passive: true });
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('scroll', scheduleDraw);
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+      frame.current = null;
+    };
+  }, [scrollRef, scheduleDraw]);
+
+  // Keep the keyboard cursor on screen; the DOM board does this with scrollIntoView
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!showCursor || !container) return;
+    const x = cursor.col * CELL + rowOffset(cursor.row);
+    const y = cursor.row * CELL;
+    if (x < container.scrollLeft) container.scrollLeft = x;
+    else if (x + CELL > container.scrollLeft + container.clientWidth) container.scrollLeft = x + CELL - container.clientWidth;
+    if (y < container.scrollTop) container.scrollTop = y;
+    else if (y + CELL > container.scrollTop + container.clientHeight) container.scrollTop = y + CELL - container.clientHeight;
+  }, [cursor, showCursor]);
+
+  // The canvas always covers the visible part of the board, so the scroll offset maps it back
+  const cellAt = (clientX: number, clientY: number): CellRef | null => {
+    const canvas = canvasRef.current;
+    const container = scrollRef.current;
+    if (!canvas || !container) return null;
+    const rect = canvas.getBoundingClientRect();
+    const y = clientY - rect.top + container.scrollTop;
+    const row = Math.floor(y / CELL);
+    if (row < 0 || row >= rows) return null;
+    const col = Math.floor((clientX - rect.left + container.scrollLeft - rowOffset(row)) / CELL);
+    return col >= 0 && col < cols ? { row, col } : null;
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimer.current) {
+      clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
+    }
+  };
+
+  const startLongPress = (clientX: number, clientY: number) => {
+    const target = cellAt(clientX, clientY);
+    isLongPress.current = false;
+    pressStart.current = { x: clientX, y: clientY };
+    cancelLongPress();
+    if (!target) return;
+    longPressTimer.current = setTimeout(() => {
+      isLongPress.current = true;
+      onContextMenu(target.row, target.col);
+    }, LONG_PRESS_MS);
+  };
+
+  // Moving past the threshold is a drag, not a long press
+  const trackPress = (clientX: number, clientY: number, threshold: number) => {
+    if (!pressStart.current) return;
+    if (Math.abs(clientX - pressStart.current.x) > threshold || Math.abs(clientY - pressStart.current.y) > threshold) {
+      cancelLongPress();
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    // Middle click, or both buttons held together, chords
+    if (e.button === 1 || (e.buttons & 3) === 3) {
+      e.preventDefault();
+      if (e.button !== 1) isChording.current = true;
+      cancelLongPress();
+      const target = cellAt(e.clientX, e.clientY);
+      if (target) onChord?.(target.row, target.col);
+      return;
+    }
+    if (e.button === 0) startLongPress(e.clientX, e.clientY);
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    cancelLongPress();
+    pressStart.current = null;
+    // The click / contextmenu events of the released buttons fire right after mouseup
+    if (isChording.current && e.buttons === 0) {
+      setTimeout(() => { isChording.current = false; }, 0);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    cancelLongPress();
+    pressStart.current = null;
+    isChording.current = false;
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    // If this click was triggered after a long press, ignore the click (reveal) action
+    if (isLongPress.current) {
+      isLongPress.current = false;
+      return;
+    }
+    if (isChording.current) return;
+    const target = cellAt(e.clientX, e.clientY);
+    if (target) onClick(target.row, target.col);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (isChording.current) return;
+    const target = cellAt(e.clientX, e.clientY);
+    if (target) onContextMenu(target.row, target.col);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (e.touches[0]) startLongPress(e.touches[0].clientX, e.touches[0].clientY);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    cancelLongPress();
+    pressStart.current = null;
+    if (isLongPress.current && e.cancelable) e.preventDefault();
+  };
+
+  return (
+    <div style={{ width, height }}>
+      <canvas
+        ref={canvasRef}
+        {...canvasProps}
+        className={`sticky top-0 left-0 block cursor-pointer select-none ${canvasProps?.className ?? ''}`}
+        onClick={handleClick}
+        onContextMenu={handleContextMenu}
+        onMouseDown={handleMouseDown}
+        onMouseMove={(e) => trackPress(e.clientX, e.clientY, 5)}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onTouchStart={handleTouchStart}
+        onTouchMove={(e) => e.touches[0] && trackPress(e.touches[0].clientX, e.touches[0].clientY, 10)}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={handleTouchEnd}
+      />
+    </div>
+  );
+};
+
+export default CanvasBoard;
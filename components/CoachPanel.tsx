@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CellData, CellRef, ChatMessage, HintSettings, TopologyId } from '../types';
+import { ReplayAction } from '../replay';
+import { CELL_REF_PATTERN, describeRecentMoves, findCellRefs } from '../services/hintPrompt';
+import { HINT_PROVIDERS, streamCoachReply } from '../services/hintProvider';
+import { Eraser, MessageSquare, Send, Square, X } from 'lucide-react';
+
+interface CoachPanelProps {
+  board: CellData[][];
+  minesLeft: number;
+  totalMines: number;
+  topology?: TopologyId;
+  getActions: () => ReplayAction[]; // The current game's moves, read when a question is sent
+  settings: HintSettings;
+  onAsk: () => void; // The coach sees the board, so asking counts as using a hint
+  onHighlight: (refs: CellRef[]) => void; // Cells the answer names, ringed on the grid
+  onClose: () => void;
+}
+
+// The model gets the latest moves and turns only; older ones add cost, not insight
+const RECENT_MOVES = 15;
+const MAX_HISTORY = 20;
+
+const SUGGESTIONS = ['下一步该点哪里？', '这里的 1-2-1 是什么意思？', '为什么刚才那一步是猜测？'];
+
+const CoachPanel: React.FC<CoachPanelProps> = ({
+  board, minesLeft, totalMines, topology, getActions, settings, onAsk, onHighlight, onClose,
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const conversationRef = useRef(0); // Bumped by "清空", so a stopped answer cannot write into the new conversation
+  const listRef = useRef<HTMLDivElement>(null);
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+
+  // Closing the panel stops the answer and clears its highlights
+  useEffect(() => () => {
+    controllerRef.current?.abort();
+    onHighlight([]);
+  }, [onHighlight]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const send = async (text: string) => {
+    const question = text.trim();
+    if (!question || streaming) return;
+    onAsk();
+    setError(null);
+    setInput('');
+
+    const history: ChatMessage[] = [...messages, { role: 'user', content: question }];
+    setMessages([...history, { role: 'assistant', content: '' }]);
+    setStreaming(true);
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const conversation = conversationRef.current;
+
+    let answer = '';
+    try {
+      await streamCoachReply(
+        {
+          board,
+          minesLeft,
+          totalMines,
+          topology,
+          recentMoves: describeRecentMoves(getActions(), RECENT_MOVES),
+          messages: history.slice(-MAX_HISTORY),
+        },
+        settings,
+        piece => {
+          if (conversation !== conversationRef.current) return;
+          answer += piece;
+          setMessages([...history, { role: 'assistant', content: answer }]);
+          onHighlight(findCellRefs(answer, rows, cols));
+        },
+        controller.signal
+      );
+    } catch (e) {
+      if (conversation === conversationRef.current) setError(e instanceof Error ? e.message : '教练没有回答。');
+    } finally {
+      // An answer that never started is dropped, so the question can simply be sent again
+      if (!answer && conversation === conversationRef.current) setMessages(history);
+      setStreaming(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const clear = () => {
+    conversationRef.current++;
+    controllerRef.current?.abort();
+    setMessages([]);
+    setError(null);
+    onHighlight([]);
+  };
+
+  // Cell names in an answer become buttons that ring just that cell
+  const renderAnswer = (text: string) => {
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(CELL_REF_PATTERN)) {
+      const index = match.index ?? 0;
+      const ref = findCellRefs(match[0], rows, cols)[0];
+      parts.push(text.slice(last, index));
+      parts.push(ref ? (
+        <button
+          key={index}
+          onClick={() => onHighlight([ref])}
+          title="在棋盘上标出这个格子"
+          className="px-0.5 font-mono font-bold text-violet-700 bg-violet-100 rounded hover:bg-violet-200"
+        >
+          {match[0]}
+        </button>
+      ) : match[0]);
+      last = index + match[0].length;
+    }
+    parts.push(text.slice(last));
+    return parts;
+  };
+
+  return (
+    <div className="bg-slate-300 p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-sm lg:w-80 flex flex-col gap-2 max-h-[90vh]">
+      <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+        <span className="flex items-center gap-1">
+          <MessageSquare size={16} /> AI 教练 · {HINT_PROVIDERS[settings.provider].name}
+        </span>
+        <span className="flex items-center">
+          <button onClick={clear} title="清空对话" className="p-1 hover:bg-slate-400 rounded">
+            <Eraser size={16} />
+          </button>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </span>
+      </div>
+
+      <div ref={listRef} className="flex-1 min-h-[8rem] overflow-y-auto flex flex-col gap-2 text-xs" aria-live="polite">
+        {messages.length === 0 && (
+          <div className="text-slate-600">
+            可以问教练关于当前局面的任何问题。它能看到棋盘和你最近的操作，提到的格子会在棋盘上用紫色圈出。
+          </div>
+        )}
+        {messages.map((m, i) => (
+          <div
+            key={i}
+            className={`px-2 py-1 rounded whitespace-pre-wrap ${m.role === 'user' ? 'self-end bg-slate-600 text-white max-w-[85%]' : 'bg-white text-slate-800 border border-slate-400'}`}
+          >
+            {m.role === 'assistant' ? (m.content ? renderAnswer(m.content) : '…') : m.content}
+          </div>
+        ))}
+        {error && <div className="px-2 py-1 bg-red-50 border border-red-300 rounded text-red-700">{error}</div>}
+      </div>
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-1">
+          {SUGGESTIONS.map(s => (
+            <button
+              key={s}
+              onClick={() => send(s)}
+              className="px-2 py-0.5 text-xs text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-1">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              send(input);
+            }
+          }}
+          rows={2}
+          placeholder="问教练（回车发送，Shift+回车换行）"
+          className="flex-1 px-1 py-0.5 border-2 border-slate-400 bg-white text-xs resize-none focus:outline-none"
+        />
+        {streaming ? (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            title="停止回答"
+            className="p-1.5 text-white bg-slate-600 hover:bg-slate-500 rounded"
+          >
+            <Square size={14} />
+          </button>
+        ) : (
+          <button
+            onClick={() => send(input)}
+            disabled={!input.trim()}
+            title="发送"
+            className="p-1.5 text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50"
+          >
+            <Send size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachPanel;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Difficulty } from '../types';
+import { BOARD_LIMITS, maxMinesFor, validateDifficulty } from '../gameEngine';
+import { Trash2, X } from 'lucide-react';
+
+interface CustomDifficultyDialogProps {
+  initial: Difficulty;
+  presets: Difficulty[];
+  onApply: (difficulty: Difficulty) => void;
+  onSavePreset: (difficulty: Difficulty) => void;
+  onDeletePreset: (name: string) => void;
+  onClose: () => void;
+}
+
+// Reference densities of the classic presets, for the live feedback
+const describeDensity = (density: number) => {
+  if (density < 0.13) return '轻松（≈ 初级 12%）';
+  if (density < 0.17) return '适中（≈ 中级 16%）';
+  if (density < 0.22) return '困难（≈ 高级 21%）';
+  if (density < 0.3) return '非常困难';
+  return '极难，大量猜测';
+};
+
+const CustomDifficultyDialog: React.FC<CustomDifficultyDialogProps> = ({
+  initial, presets, onApply, onSavePreset, onDeletePreset, onClose,
+}) => {
+  const [rows, setRows] = useState(String(initial.rows));
+  const [cols, setCols] = useState(String(initial.cols));
+  const [mines, setMines] = useState(String(initial.mines));
+  const [name, setName] = useState('');
+
+  const candidate: Difficulty = {
+    name: name.trim() || '自定义',
+    rows: Number(rows),
+    cols: Number(cols),
+    mines: Number(mines),
+  };
+  const error = validateDifficulty(candidate);
+  const density = candidate.mines / (candidate.rows * candidate.cols);
+  const { minSize, maxSize } = BOARD_LIMITS;
+
+  const numberField = (label: string, value: string, onChange: (v: string) => void, max: number) => (
+    <label className="flex flex-col text-xs font-bold text-slate-700">
+      {label}
+      <input
+        type="number"
+        min={1}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-20 px-1 py-0.5 border-2 border-slate-400 bg-white font-mono text-sm focus:outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-sm flex flex-col gap-3">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>自定义难度</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          {numberField(`行数 (${minSize}-${maxSize})`, rows, setRows, maxSize)}
+          {numberField(`列数 (${minSize}-${maxSize})`, cols, setCols, maxSize)}
+          {numberField('地雷数', mines, setMines, maxSize * maxSize)}
+        </div>
+
+        {error ? (
+          <div className="text-xs bg-red-100 border border-red-400 text-red-800 p-2 rounded">{error}</div>
+        ) : (
+          <div className="text-xs text-slate-700">
+            密度 <span className="font-bold">{(density * 100).toFixed(1)}%</span> · {describeDensity(density)}
+            <span className="block text-slate-500">最多可放 {maxMinesFor(candidate.rows, candidate.cols)} 个地雷</span>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onApply(candidate)}
+            disabled={!!error}
+            className="flex-1 px-2 py-1 text-sm font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50"
+          >
+            开始
+          </button>
+        </div>
+
+        <div className="flex gap-2 items-center border-t border-slate-400 pt-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="预设名称，例如 30x30 / 200"
+            className="flex-1 px-1 py-0.5 border-2 border-slate-400 bg-white text-sm focus:outline-none"
+          />
+          <button
+            onClick={() => onSavePreset(candidate)}
+            disabled={!!error || !name.trim()}
+            className="px-2 py-1 text-sm font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100 disabled:opacity-50"
+          >
+            保存预设
+          </button>
+        </div>
+
+        {presets.length > 0 && (
+          <ul className="flex flex-col gap-1 text-xs text-slate-700 max-h-40 overflow-auto">
+            {presets.map(p => (
+              <li key={p.name} className="flex items-center justify-between bg-slate-200 px-2 py-1 rounded">
+                <button onClick={() => onApply(p)} className="font-bold hover:underline text-left">
+                  {p.name} <span className="font-normal font-mono">{p.rows}x{p.cols} / {p.mines}</span>
+                </button>
+                <button onClick={() => onDeletePreset(p.name)} title="删除预设" className="p-1 hover:bg-slate-300 rounded">
+                  <Trash2 size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomDifficultyDialog;
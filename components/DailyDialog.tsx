@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { DIFFICULTIES } from '../gameEngine';
+import { DAILY_LEVELS, DailyLevel } from '../daily';
+import { DailyRecord, computeDailyStreak, dailyCard, findDailyRecord } from '../services/dailyService';
+import { CalendarDays, Copy, Play, X } from 'lucide-react';
+
+interface DailyDialogProps {
+  records: DailyRecord[];
+  today: string;
+  initialLevel: DailyLevel;
+  onStart: (level: DailyLevel) => void; // Ranked when today's attempt is still unused, practice otherwise
+  onClose: () => void;
+}
+
+const HISTORY_SIZE = 10;
+
+const describeRecord = (record: DailyRecord | null): string => {
+  if (!record) return '未挑战';
+  if (record.status === 'playing') return '未完成';
+  const time = record.timeMs !== null ? ` ${(record.timeMs / 1000).toFixed(2)}s` : '';
+  return `${record.status === 'won' ? '胜利' : '踩雷'}${time}`;
+};
+
+const DailyDialog: React.FC<DailyDialogProps> = ({ records, today, initialLevel, onStart, onClose }) => {
+  const [level, setLevel] = useState<DailyLevel>(initialLevel);
+  const todays = findDailyRecord(records, today, level);
+  const streak = computeDailyStreak(records, level, today);
+  const card = todays && todays.status !== 'playing' ? dailyCard(records, todays) : null;
+  const history = records.filter(r => r.level === level).slice(-HISTORY_SIZE).reverse();
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-sm flex flex-col gap-3 max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span className="flex items-center gap-1"><CalendarDays size={16} /> 每日挑战 · {today}</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex gap-1">
+          {DAILY_LEVELS.map(key => (
+            <button
+              key={key}
+              onClick={() => setLevel(key)}
+              className={`flex-1 px-2 py-1 text-xs font-bold rounded border-2 ${key === level ? 'bg-slate-600 text-white border-slate-600' : 'bg-white text-slate-700 border-slate-400 hover:bg-slate-100'}`}
+            >
+              {DIFFICULTIES[key].name}
+              <span className="block font-normal">{describeRecord(findDailyRecord(records, today, key))}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-between text-xs text-slate-700">
+          <span>连胜 <span className="font-mono font-bold">{streak.current}</span> 天</span>
+          <span>最长连胜 <span className="font-mono font-bold">{streak.best}</span> 天</span>
+        </div>
+
+        <button
+          onClick={() => onStart(level)}
+          className="flex items-center justify-center gap-1 px-2 py-1 text-sm font-bold text-white bg-slate-600 hover:bg-slate-500 rounded"
+        >
+          <Play size={14} /> {todays ? '再玩一次（不计成绩）' : '开始今天的挑战'}
+        </button>
+        <div className="text-[10px] text-slate-500">
+          每天每个难度只有一次计成绩的机会，开始后放弃也算用掉。同一天所有人拿到的是同一个棋盘，第一步已在中心揭开。
+        </div>
+
+        {card && (
+          <div className="flex flex-col gap-1">
+            <textarea
+              readOnly
+              value={card}
+              rows={card.split('\n').length}
+              className="px-1 py-0.5 border-2 border-slate-400 bg-white text-xs resize-none focus:outline-none"
+            />
+            <button
+              onClick={() => navigator.clipboard?.writeText(card)}
+              className="flex items-center justify-center gap-1 px-2 py-0.5 text-xs font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+            >
+              <Copy size={12} /> 复制成绩卡
+            </button>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <table className="w-full text-xs bg-white border border-slate-400">
+            <caption className="text-left font-bold text-slate-700 pb-1">最近的挑战</caption>
+            <tbody>
+              {history.map(record => (
+                <tr key={record.date} className={record.date === today ? 'font-bold bg-yellow-50' : ''}>
+                  <td className="px-1 font-mono">{record.date}</td>
+                  <td className="px-1">{describeRecord(record)}</td>
+                  <td className="px-1 text-right font-mono">{record.bbbv !== null ? `3BV ${record.bbbv}` : ''}</td>
+                  <td className="px-1 text-right">{record.usedHints || record.usedUndo ? '💡' : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DailyDialog;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { GameMetrics } from '../metrics';
+
+interface GameSummaryProps {
+  metrics: GameMetrics;
+  won: boolean;
+}
+
+const GameSummary: React.FC<GameSummaryProps> = ({ metrics, won }) => {
+  const item = (label: string, value: string) => (
+    <div className="flex flex-col items-center">
+      <span className="font-mono font-bold text-slate-800">{value}</span>
+      <span className="text-[10px] text-slate-500">{label}</span>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-4 gap-1 text-xs bg-slate-100 border border-slate-400 rounded p-2">
+      {item('用时', `${(metrics.timeMs / 1000).toFixed(3)}s`)}
+      {item('3BV', won ? String(metrics.bbbv) : `${metrics.solvedBbbv}/${metrics.bbbv}`)}
+      {item('3BV/s', metrics.bbbvPerSecond.toFixed(2))}
+      {item('IOE', metrics.ioe.toFixed(2))}
+      {item('左键', String(metrics.clicks.left))}
+      {item('右键', String(metrics.clicks.right))}
+      {item('双击', String(metrics.clicks.chord))}
+      {item('正确率', `${Math.round(metrics.correctness * 100)}%`)}
+    </div>
+  );
+};
+
+export default GameSummary;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { HintProviderId, HintSettings } from '../types';
+import { DEFAULT_HINT_SETTINGS, HINT_PROVIDERS } from '../services/hintProvider';
+import { X } from 'lucide-react';
+
+interface HintSettingsDialogProps {
+  settings: HintSettings;
+  onSave: (settings: HintSettings) => void;
+  onClose: () => void;
+}
+
+const HintSettingsDialog: React.FC<HintSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<HintSettings>(settings);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(String(settings.timeoutMs / 1000));
+  const [attemptsInput, setAttemptsInput] = useState(String(settings.maxAttempts));
+
+  const timeout = Number(timeoutSeconds);
+  const maxAttempts = Number(attemptsInput);
+  const error =
+    !(timeout >= 1 && timeout <= 300) ? '超时必须在 1 到 300 秒之间。' :
+    !(Number.isInteger(maxAttempts) && maxAttempts >= 1 && maxAttempts <= 10) ? '尝试次数必须是 1 到 10 的整数。' :
+    null;
+
+  const textField = (label: string, value: string, onChange: (v: string) => void, type = 'text', placeholder?: string) => (
+    <label className="flex flex-col text-xs font-bold text-slate-700">
+      {label}
+      <input
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-1 py-0.5 border-2 border-slate-400 bg-white font-mono text-sm font-normal focus:outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-sm flex flex-col gap-3">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>AI 提示设置</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <label className="flex flex-col text-xs font-bold text-slate-700">
+          提示来源
+          <select
+            value={draft.provider}
+            onChange={(e) => setDraft({ ...draft, provider: e.target.value as HintProviderId })}
+            className="px-1 py-0.5 border-2 border-slate-400 bg-white text-sm focus:outline-none"
+          >
+            {Object.values(HINT_PROVIDERS).map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {draft.provider === 'gemini' && (
+          <>
+            {textField('模型', draft.gemini.model, (model) => setDraft({ ...draft, gemini: { ...draft.gemini, model } }))}
+            {textField('API Key（留空使用内置密钥）', draft.gemini.apiKey, (apiKey) => setDraft({ ...draft, gemini: { ...draft.gemini, apiKey } }), 'password')}
+          </>
+        )}
+
+        {draft.provider === 'openai' && (
+          <>
+            {textField('接口地址', draft.openai.endpoint, (endpoint) => setDraft({ ...draft, openai: { ...draft.openai, endpoint } }), 'url', DEFAULT_HINT_SETTINGS.openai.endpoint)}
+            {textField('模型', draft.openai.model, (model) => setDraft({ ...draft, openai: { ...draft.openai, model } }))}
+            {textField('API Key（本地服务可留空）', draft.openai.apiKey, (apiKey) => setDraft({ ...draft, openai: { ...draft.openai, apiKey } }), 'password')}
+            <div className="text-[10px] text-slate-500">
+              例如 Ollama: http://localhost:11434/v1，llama.cpp: http://localhost:8080/v1。服务需允许浏览器跨域访问（Ollama 可设置 OLLAMA_ORIGINS）。
+            </div>
+          </>
+        )}
+
+        {draft.provider === 'mock' && (
+          <div className="text-xs text-slate-600">模拟提示不联网，按顺序建议未揭开的格子（被拒绝后换下一个），仅用于测试界面。</div>
+        )}
+
+        {textField('每次回答的超时（秒）', timeoutSeconds, setTimeoutSeconds, 'number')}
+        {textField('最多尝试次数（无效提示会带着错误原因重新询问）', attemptsInput, setAttemptsInput, 'number')}
+
+        {error && (
+          <div className="text-xs bg-red-100 border border-red-400 text-red-800 p-2 rounded">{error}</div>
+        )}
+
+        <div className="text-[10px] text-slate-500">设置（包括 API Key）只保存在本机浏览器中。</div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              setDraft(DEFAULT_HINT_SETTINGS);
+              setTimeoutSeconds(String(DEFAULT_HINT_SETTINGS.timeoutMs / 1000));
+              setAttemptsInput(String(DEFAULT_HINT_SETTINGS.maxAttempts));
+            }}
+            className="px-2 py-1 text-sm font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+          >
+            恢复默认
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, timeoutMs: Math.round(timeout * 1000), maxAttempts })}
+            disabled={!!error}
+            className="flex-1 px-2 py-1 text-sm font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HintSettingsDialog;
@@ -11,7 +11,7 @@ const LEDDisplay: React.FC<LEDDisplayProps> = ({ value }) => {
   const formatted = clamped.toString().padStart(3, '0');
 
   return (
-    <div className="bg-black text-red-600 px-2 py-1 text-3xl font-bold border-2 border-slate-600 rounded digital-font tracking-widest shadow-inner">
+    <div className="bg-[color:var(--ms-led-bg)] text-[color:var(--ms-led-digits)] px-2 py-1 text-3xl font-bold border-2 border-[color:var(--ms-led-border)] rounded digital-font tracking-widest shadow-inner">
       {formatted}
     </div>
   );
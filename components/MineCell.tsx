@@ -1,32 +1,60 @@
-import React, { useRef } from 'react';
+import React, { useContext, useRef } from 'react';
 import { CellData, CellState, CellValue } from '../types';
+import { probabilityTint } from '../theme';
+import { ThemeContext } from './ThemeContext';
+import ThemeGlyph from './ThemeGlyph';
 
 interface MineCellProps {
   data: CellData;
   onClick: (r: number, c: number) => void;
   onContextMenu: (r: number, c: number) => void;
+  onChord?: (r: number, c: number) => void;
+  probability?: number | null; // Mine probability overlay, shown on unrevealed cells when set
+  id?: string; // DOM id, referenced by the grid's aria-activedescendant
+  isCursor?: boolean; // Keyboard cursor position
 }
 
+// The theme's colours, from the CSS custom properties App sets (see themeVariables)
 const numberColors: Record<number, string> = {
-  1: 'text-blue-700',
-  2: 'text-green-700',
-  3: 'text-red-700',
-  4: 'text-purple-800',
-  5: 'text-red-900',
-  6: 'text-cyan-800',
-  7: 'text-black',
-  8: 'text-gray-600',
+  1: 'text-[color:var(--ms-n1)]',
+  2: 'text-[color:var(--ms-n2)]',
+  3: 'text-[color:var(--ms-n3)]',
+  4: 'text-[color:var(--ms-n4)]',
+  5: 'text-[color:var(--ms-n5)]',
+  6: 'text-[color:var(--ms-n6)]',
+  7: 'text-[color:var(--ms-n7)]',
+  8: 'text-[color:var(--ms-n8)]',
 };
 
-const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) => {
+// Screen-reader description, e.g. "第 3 行第 5 列，周围 2 个地雷"
+export const describeCell = (data: CellData, probability?: number | null): string => {
+  const position = `第 ${data.row + 1} 行第 ${data.col + 1} 列`;
+  let content: string;
+  if (data.state === CellState.FLAGGED) content = '已插旗';
+  else if (data.state === CellState.QUESTION) content = '问号';
+  else if (data.state === CellState.HIDDEN) content = '未揭开';
+  else if (data.value === CellValue.MINE) content = data.isExploded ? '踩中的地雷' : '地雷';
+  else if (data.value === 0) content = '空白，周围没有地雷';
+  else content = `周围 ${data.value} 个地雷`;
+  const risk = probability !== undefined && probability !== null && data.state !== CellState.REVEALED
+    ? `，地雷概率 ${(probability * 100).toFixed(0)}%`
+    : '';
+  return `${position}，${content}${risk}`;
+};
+
+const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu, onChord, probability, id, isCursor }) => {
+  const theme = useContext(ThemeContext);
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isLongPress = useRef(false);
+  // Set while a left+right chord is in progress, so neither button also reveals or flags
+  const isChording = useRef(false);
   const touchStartPos = useRef<{ x: number; y: number } | null>(null);
   const mouseStartPos = useRef<{ x: number; y: number } | null>(null);
 
   // Handle right click (flag) - Desktop standard
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
+    if (isChording.current) return;
     onContextMenu(data.row, data.col);
   };
 
@@ -73,6 +101,18 @@ const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) =>
   // --- Mouse Events (Desktop Left-Click Hold) ---
 
   const handleMouseDown = (e: React.MouseEvent) => {
+    // Middle click, or both buttons held together, chords
+    if (e.button === 1 || (e.buttons & 3) === 3) {
+      e.preventDefault();
+      if (e.button !== 1) isChording.current = true;
+      if (longPressTimer.current) {
+        clearTimeout(longPressTimer.current);
+        longPressTimer.current = null;
+      }
+      onChord?.(data.row, data.col);
+      return;
+    }
+
     // Only process left click (button 0) for simulated long press
     if (e.button !== 0) return;
 
@@ -105,6 +145,10 @@ const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) =>
       longPressTimer.current = null;
     }
     mouseStartPos.current = null;
+    // The click / contextmenu events of the released buttons fire right after mouseup
+    if (isChording.current && e.buttons === 0) {
+      setTimeout(() => { isChording.current = false; }, 0);
+    }
   };
 
   const handleMouseLeave = (e: React.MouseEvent) => {
@@ -113,6 +157,7 @@ const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) =>
       longPressTimer.current = null;
     }
     mouseStartPos.current = null;
+    isChording.current = false;
   };
 
   // --- Click Handling ---
@@ -123,14 +168,15 @@ const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) =>
           isLongPress.current = false;
           return;
       }
+      if (isChording.current) return;
       onClick(data.row, data.col);
   }
 
   const getCellContent = () => {
-    if (data.state === CellState.FLAGGED) return '🚩';
+    if (data.state === CellState.FLAGGED) return <ThemeGlyph glyph={theme.glyphs.flag} />;
     if (data.state === CellState.QUESTION) return '?';
     if (data.state === CellState.HIDDEN) return '';
-    if (data.value === CellValue.MINE) return '💣';
+    if (data.value === CellValue.MINE) return <ThemeGlyph glyph={theme.glyphs.mine} />;
     if (data.value === 0) return '';
     return data.value;
   };
@@ -139,20 +185,26 @@ const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) =>
   
   let visualClasses = "";
   if (data.state === CellState.HIDDEN || data.state === CellState.FLAGGED || data.state === CellState.QUESTION) {
-    visualClasses = "bg-slate-300 border-t-white border-l-white border-b-slate-600 border-r-slate-600 border-[3px] active:border-slate-400";
+    visualClasses = "bg-[color:var(--ms-hidden)] border-t-[color:var(--ms-light)] border-l-[color:var(--ms-light)] border-b-[color:var(--ms-shade)] border-r-[color:var(--ms-shade)] border-[3px] active:border-[color:var(--ms-grid)]";
   } else {
     // Revealed
-    visualClasses = "bg-slate-200 border-slate-300 border-[1px]";
-    if (data.isExploded) visualClasses += " bg-red-500";
+    visualClasses = `${data.isExploded ? 'bg-[color:var(--ms-exploded)]' : 'bg-[color:var(--ms-revealed)]'} border-[color:var(--ms-grid)] border-[1px]`;
   }
 
   const textColor = (data.state === CellState.REVEALED && data.value > 0) 
     ? numberColors[data.value] 
-    : 'text-black';
+    : 'text-[color:var(--ms-mark)]';
+
+  const showProbability = probability !== undefined && probability !== null && data.state !== CellState.REVEALED;
 
   return (
     <div
-      className={`${baseClasses} ${visualClasses} ${textColor}`}
+      id={id}
+      role="gridcell"
+      aria-label={describeCell(data, probability)}
+      aria-selected={isCursor || undefined}
+      className={`${baseClasses} ${visualClasses} ${textColor} ${showProbability || isCursor ? 'relative' : ''}`}
+      title={showProbability ? `地雷概率 ${(probability * 100).toFixed(1)}%` : undefined}
       onClick={handleClick}
       onContextMenu={handleContextMenu}
       
@@ -168,6 +220,15 @@ const MineCell: React.FC<MineCellProps> = ({ data, onClick, onContextMenu }) =>
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseLeave}
     >
+      {showProbability && (
+        <span
+          className="absolute inset-0 pointer-events-none"
+          style={{ backgroundColor: probabilityTint(theme, probability) }}
+        />
+      )}
+      {isCursor && (
+        <span className="absolute inset-0 pointer-events-none outline outline-[3px] -outline-offset-[3px] outline-sky-500" />
+      )}
       {getCellContent()}
     </div>
   );
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Difficulty } from '../types';
+import { MAX_RACE_CELLS, RaceRoom } from '../race';
+import { RaceProfile } from '../services/raceClient';
+import { getTopology } from '../topology';
+import { X } from 'lucide-react';
+
+interface RaceLobbyProps {
+  room: RaceRoom | null;
+  playerId: string | null;
+  connecting: boolean;
+  profile: RaceProfile;
+  difficulty: Difficulty; // What a new room will be played on
+  noGuess: boolean;
+  onCreate: (profile: RaceProfile) => void;
+  onJoin: (profile: RaceProfile, roomCode: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const describeBoard = (d: Difficulty, noGuess: boolean) =>
+  `${d.name} ${d.rows}x${d.cols} / ${d.mines} 雷 · ${getTopology(d.topology).name}${noGuess ? ' · 无猜' : ''}`;
+
+const RaceLobby: React.FC<RaceLobbyProps> = ({
+  room, playerId, connecting, profile, difficulty, noGuess, onCreate, onJoin, onStart, onLeave, onClose,
+}) => {
+  const [name, setName] = useState(profile.name);
+  const [serverUrl, setServerUrl] = useState(profile.serverUrl);
+  const [roomCode, setRoomCode] = useState('');
+
+  const draft: RaceProfile = { name: name.trim(), serverUrl: serverUrl.trim() };
+  const canConnect = !connecting && draft.name !== '' && draft.serverUrl !== '';
+  const tooLarge = difficulty.rows * difficulty.cols > MAX_RACE_CELLS;
+  const buttonClass = 'px-2 py-1 text-sm font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-sm flex flex-col gap-3">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>{room ? `对战房间 ${room.code}` : '对战'}</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        {!room ? (
+          <>
+            <label className="flex flex-col text-xs font-bold text-slate-700">
+              昵称
+              <input
+                value={name}
+                maxLength={16}
+                onChange={(e) => setName(e.target.value)}
+                className="px-1 py-0.5 border-2 border-slate-400 bg-white text-sm font-normal focus:outline-none"
+              />
+            </label>
+            <label className="flex flex-col text-xs font-bold text-slate-700">
+              服务器
+              <input
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                className="px-1 py-0.5 border-2 border-slate-400 bg-white font-mono text-sm font-normal focus:outline-none"
+              />
+            </label>
+
+            <div className="flex flex-col gap-1 bg-slate-200 border border-slate-400 rounded p-2">
+              <span className="text-xs text-slate-600">新房间使用当前棋盘：{describeBoard(difficulty, noGuess)}</span>
+              {tooLarge && <span className="text-xs text-red-700">对战棋盘最多 {MAX_RACE_CELLS} 格，请先选择小一些的棋盘。</span>}
+              <button onClick={() => onCreate(draft)} disabled={!canConnect || tooLarge} className={buttonClass}>
+                创建房间
+              </button>
+            </div>
+
+            <div className="flex gap-1">
+              <input
+                value={roomCode}
+                placeholder="房间号"
+                maxLength={4}
+                onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                className="flex-1 min-w-0 px-1 py-0.5 border-2 border-slate-400 bg-white font-mono text-sm uppercase focus:outline-none"
+              />
+              <button onClick={() => onJoin(draft, roomCode)} disabled={!canConnect || roomCode.trim().length !== 4} className={buttonClass}>
+                加入
+              </button>
+            </div>
+
+            {connecting && <div className="text-xs text-slate-600">正在连接…</div>}
+            <div className="text-[10px] text-slate-500">
+              对战通过本地服务器进行，不使用任何外部服务。先在一台电脑上运行 npm run race-server。
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-xs text-slate-600">{describeBoard(room.difficulty, room.noGuess)}</div>
+            <ul className="flex flex-col gap-1 text-sm">
+              {room.players.map(player => (
+                <li key={player.id} className="px-2 py-1 bg-white border border-slate-400 rounded">
+                  {player.name}
+                  {player.id === room.hostId && <span className="text-xs text-slate-500">（房主）</span>}
+                  {player.id === playerId && <span className="text-xs text-slate-500">（你）</span>}
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                onClick={onLeave}
+                className="px-2 py-1 text-sm font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100"
+              >
+                离开
+              </button>
+              {room.hostId === playerId ? (
+                <button onClick={onStart} className={`flex-1 ${buttonClass}`}>
+                  开始比赛
+                </button>
+              ) : (
+                <span className="flex-1 self-center text-xs text-slate-600">等待房主开始…</span>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RaceLobby;
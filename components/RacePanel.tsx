@@ -0,0 +1,117 @@
+import React from 'react';
+import { MASK_FLAGGED, MASK_REVEALED, RacePlayer, RacePlayerStatus, RaceRoom, rankPlayers } from '../race';
+import { LogOut, RotateCcw } from 'lucide-react';
+
+interface RacePanelProps {
+  room: RaceRoom;
+  playerId: string | null;
+  countdown: number | null; // Seconds left before the start, while counting down
+  onRematch: () => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<RacePlayerStatus, string> = {
+  waiting: '等待中',
+  playing: '进行中',
+  won: '完成',
+  lost: '踩雷',
+  left: '已离开',
+};
+
+const formatTime = (ms: number | null) => ms === null ? '-' : `${(ms / 1000).toFixed(2)}s`;
+
+// An opponent's board, one 4px square per cell: open, flagged or still hidden
+const MiniBoard: React.FC<{ mask: string; cols: number; status: RacePlayerStatus }> = ({ mask, cols, status }) => (
+  <div
+    className={`grid gap-px p-px border-2 w-max ${status === 'won' ? 'border-emerald-500' : status === 'lost' ? 'border-red-500 opacity-60' : 'border-slate-500'}`}
+    style={{ gridTemplateColumns: `repeat(${cols}, 4px)` }}
+    aria-hidden
+  >
+    {[...mask].map((ch, i) => (
+      <div
+        key={i}
+        className={`w-1 h-1 ${ch === MASK_REVEALED ? 'bg-slate-100' : ch === MASK_FLAGGED ? 'bg-red-500' : 'bg-slate-400'}`}
+      />
+    ))}
+  </div>
+);
+
+const RacePanel: React.FC<RacePanelProps> = ({ room, playerId, countdown, onRematch, onLeave }) => {
+  const { rows, cols, mines } = room.difficulty;
+  const safeCells = rows * cols - mines;
+  const opponents = room.players.filter(p => p.id !== playerId);
+  const isHost = room.hostId === playerId;
+
+  return (
+    <div className="bg-slate-300 p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-sm lg:w-72 flex flex-col gap-2 max-h-[90vh] overflow-y-auto">
+      <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+        <span>对战房间 <span className="font-mono">{room.code}</span></span>
+        <button onClick={onLeave} title="离开房间" className="p-1 hover:bg-slate-400 rounded">
+          <LogOut size={16} />
+        </button>
+      </div>
+
+      {countdown !== null && (
+        <div className="text-center text-4xl font-mono font-bold text-red-600" role="status">{countdown}</div>
+      )}
+
+      {opponents.length === 0 && (
+        <div className="text-xs text-slate-600">还没有对手。把房间号 {room.code} 告诉队友，让他们在“对战”中加入。</div>
+      )}
+
+      {opponents.map(player => (
+        <div key={player.id} className="flex flex-col gap-1 bg-slate-200 border border-slate-400 rounded p-1.5">
+          <div className="flex justify-between text-xs">
+            <span className="font-bold text-slate-800 truncate">{player.name}{player.id === room.hostId ? '（房主）' : ''}</span>
+            <span className="text-slate-600 shrink-0">
+              {STATUS_LABELS[player.status]}
+              {player.status === 'won' || player.status === 'lost' ? ` ${formatTime(player.finishMs)}` : ''}
+              {' · '}{Math.round(player.revealed / safeCells * 100)}%
+            </span>
+          </div>
+          <MiniBoard mask={player.mask} cols={cols} status={player.status} />
+        </div>
+      ))}
+
+      {room.status === 'finished' && (
+        <div className="flex flex-col gap-2">
+          <table className="w-full text-xs bg-white border border-slate-400">
+            <caption className="text-left font-bold text-slate-700 pb-1">比赛结果</caption>
+            <thead>
+              <tr className="bg-slate-200 text-slate-600">
+                <th className="px-1 text-left">名次</th>
+                <th className="px-1 text-left">玩家</th>
+                <th className="px-1 text-left">结果</th>
+                <th className="px-1 text-right">用时</th>
+                <th className="px-1 text-right">进度</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rankPlayers(room.players).map((player, i) => (
+                <tr key={player.id} className={player.id === playerId ? 'font-bold bg-yellow-50' : ''}>
+                  <td className="px-1">{i + 1}</td>
+                  <td className="px-1 truncate max-w-[6rem]">{player.name}</td>
+                  <td className="px-1">{STATUS_LABELS[player.status]}</td>
+                  <td className="px-1 text-right font-mono">{player.status === 'won' ? formatTime(player.finishMs) : '-'}</td>
+                  <td className="px-1 text-right font-mono">{player.revealed}/{safeCells}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {isHost ? (
+            <button
+              onClick={onRematch}
+              className="flex items-center justify-center gap-1 px-2 py-1 text-sm font-bold text-white bg-slate-600 hover:bg-slate-500 rounded"
+            >
+              <RotateCcw size={14} /> 再来一局
+            </button>
+          ) : (
+            <div className="text-xs text-slate-600">等待房主开始下一局。</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RacePanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GameStatus } from '../types';
+import { Replay, replayFrameAt } from '../replay';
+import MineCell from './MineCell';
+import BoardLayout from './BoardLayout';
+import { getTopology } from '../topology';
+import { Play, Pause, RotateCcw, X } from 'lucide-react';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const TICK_MS = 50;
+
+const noop = () => {};
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const tickRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const duration = replay.durationMs;
+  const frame = useMemo(() => replayFrameAt(replay, time), [replay, time]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    tickRef.current = setInterval(() => {
+      setTime(t => {
+        const next = t + TICK_MS * speed;
+        if (next >= duration) {
+          setIsPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => {
+      if (tickRef.current) clearInterval(tickRef.current);
+    };
+  }, [isPlaying, speed, duration]);
+
+  const togglePlay = () => {
+    if (!isPlaying && time >= duration) setTime(0);
+    setIsPlaying(p => !p);
+  };
+
+  const statusText = () => {
+    if (frame.status === GameStatus.WON) return '😎 胜利';
+    if (frame.status === GameStatus.LOST) return '😵 踩雷';
+    return '🙂 进行中';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl max-w-full max-h-[95vh] flex flex-col gap-2">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>
+            回放 · {replay.difficulty.name} {replay.difficulty.rows}x{replay.difficulty.cols}/{replay.difficulty.mines}
+            {replay.difficulty.topology && replay.difficulty.topology !== 'square' && ` · ${getTopology(replay.difficulty.topology).name}`}
+            {replay.gameCode && <span className="ml-2 font-mono font-normal">{replay.gameCode}</span>}
+          </span>
+          <button onClick={onClose} title="关闭回放" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="overflow-auto border-t-slate-500 border-l-slate-500 border-b-white border-r-white border-4 bg-[color:var(--ms-board)] no-scrollbar">
+          <BoardLayout
+            board={frame.board}
+            topology={replay.difficulty.topology}
+            className="pointer-events-none"
+            gridProps={{ 'aria-hidden': true }}
+            renderCell={cell => (
+              <MineCell key={`${cell.row}-${cell.col}`} data={cell} onClick={noop} onContextMenu={noop} />
+            )}
+          />
+        </div>
+
+        <div className="flex items-center gap-2 text-sm text-slate-700">
+          <button onClick={togglePlay} title={isPlaying ? '暂停' : '播放'} className="p-1 bg-slate-200 border-2 border-slate-500 rounded">
+            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button onClick={() => { setTime(0); setIsPlaying(false); }} title="从头开始" className="p-1 bg-slate-200 border-2 border-slate-500 rounded">
+            <RotateCcw size={14} />
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={10}
+            value={time}
+            onChange={(e) => { setTime(Number(e.target.value)); setIsPlaying(false); }}
+            className="flex-1"
+          />
+          <span className="font-mono w-24 text-right">{formatTime(time)} / {formatTime(duration)}</span>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-1 bg-white border-2 border-slate-400 font-bold"
+          >
+            {SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+          </select>
+        </div>
+
+        <div className="flex justify-between text-xs text-slate-600">
+          <span>{statusText()}</span>
+          <span>操作 {frame.actionsApplied} / {replay.actions.length}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
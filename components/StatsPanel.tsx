@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Difficulty } from '../types';
+import { GameRecord, computeStats, difficultyKey } from '../services/statsService';
+import { Sparkles, Trash2, X } from 'lucide-react';
+
+interface StatsPanelProps {
+  history: GameRecord[];
+  difficulties: Difficulty[]; // Boards offered as tabs even before they have any games
+  initialDifficulty: Difficulty;
+  onClearHistory: () => void;
+  onClose: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ history, difficulties, initialDifficulty, onClearHistory, onClose }) => {
+  const [selectedKey, setSelectedKey] = useState(difficultyKey(initialDifficulty));
+
+  // One tab per board shape: known difficulties first, then anything else found in the history
+  const tabs = useMemo(() => {
+    const byKey = new Map<string, string>();
+    for (const d of difficulties) byKey.set(difficultyKey(d), d.name);
+    for (const r of history) {
+      const key = difficultyKey(r.difficulty);
+      if (!byKey.has(key)) byKey.set(key, r.difficulty.name);
+    }
+    return [...byKey.entries()];
+  }, [difficulties, history]);
+
+  const stats = useMemo(() => computeStats(history, selectedKey), [history, selectedKey]);
+  const maxBucket = Math.max(1, ...stats.timeDistribution.map(b => b.count));
+
+  const statBox = (label: string, value: string) => (
+    <div className="flex flex-col items-center bg-slate-200 px-2 py-1 rounded">
+      <span className="text-lg font-bold text-slate-800">{value}</span>
+      <span className="text-[10px] text-slate-600">{label}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-md max-h-[90vh] overflow-auto flex flex-col gap-3">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>统计与排行榜</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {tabs.map(([key, name]) => (
+            <button
+              key={key}
+              onClick={() => setSelectedKey(key)}
+              className={`px-2 py-0.5 text-xs font-bold rounded border-2 ${key === selectedKey ? 'bg-slate-600 text-white border-slate-600' : 'bg-white text-slate-700 border-slate-400'}`}
+            >
+              {name} <span className="font-mono font-normal">{key}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-5 gap-1">
+          {statBox('已玩', String(stats.played))}
+          {statBox('胜利', String(stats.won))}
+          {statBox('胜率', `${Math.round(stats.winRate * 100)}%`)}
+          {statBox('当前连胜', String(stats.currentStreak))}
+          {statBox('最长连胜', String(stats.bestStreak))}
+        </div>
+
+        <div>
+          <div className="text-xs font-bold text-slate-700 mb-1">用时分布（胜局）</div>
+          {stats.timeDistribution.length === 0 ? (
+            <div className="text-xs text-slate-500">还没有胜局。</div>
+          ) : (
+            <div className="flex items-end gap-1 h-20 bg-slate-200 p-1 rounded">
+              {stats.timeDistribution.map(bucket => (
+                <div
+                  key={bucket.fromMs}
+                  className="flex-1 bg-emerald-500"
+                  style={{ height: `${(bucket.count / maxBucket) * 100}%` }}
+                  title={`${formatSeconds(bucket.fromMs)} - ${formatSeconds(bucket.toMs)}: ${bucket.count} 局`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="text-xs font-bold text-slate-700 mb-1">最佳成绩 Top 10（不含使用提示或悔棋的对局）</div>
+          {stats.bestTimes.length === 0 ? (
+            <div className="text-xs text-slate-500">暂无记录。</div>
+          ) : (
+            <table className="w-full text-xs text-slate-700">
+              <tbody>
+                {stats.bestTimes.map((record, i) => (
+                  <tr key={record.id} className="odd:bg-slate-200">
+                    <td className="px-1 font-bold">{i + 1}</td>
+                    <td className="px-1 font-mono">{formatSeconds(record.timeMs)}</td>
+                    <td className="px-1">{new Date(record.finishedAt).toLocaleDateString()}</td>
+                    <td className="px-1 font-mono truncate max-w-[8rem]">{record.gameCode ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {history.some(r => (r.usedHints || r.usedUndo) && difficultyKey(r.difficulty) === selectedKey) && (
+            <div className="flex items-center gap-1 mt-1 text-[10px] text-slate-500">
+              <Sparkles size={10} /> 使用过提示或悔棋的对局只计入胜率与分布，不进入排行榜。
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => {
+            if (window.confirm('确定清空所有对局记录吗？')) onClearHistory();
+          }}
+          className="self-end flex items-center gap-1 px-2 py-0.5 text-xs font-bold text-red-700 bg-white border-2 border-red-300 rounded hover:bg-red-50"
+        >
+          <Trash2 size={12} />
+          清空记录
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,5 @@
+import React from 'react';
+import { CLASSIC_THEME, Theme } from '../theme';
+
+// The active theme, for what CSS custom properties cannot carry: glyphs and the canvas board's colours
+export const ThemeContext = React.createContext<Theme>(CLASSIC_THEME);
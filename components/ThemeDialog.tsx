@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { CUSTOM_THEME_PREFIX, Theme, downloadTheme, parseTheme } from '../theme';
+import ThemeGlyph from './ThemeGlyph';
+import { Check, Download, Palette, Trash2, Upload, X } from 'lucide-react';
+
+interface ThemeDialogProps {
+  themes: Theme[]; // Built-in themes first, then imported ones
+  selectedId: string;
+  onSelect: (id: string) => void; // Applied at once, so the board behind the dialog shows it
+  onImport: (theme: Theme) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// A strip of cells in the theme's own colours: covered with a flag, the numbers 1-3, a mine, and an LED counter
+const ThemePreview: React.FC<{ theme: Theme }> = ({ theme }) => {
+  const { cell } = theme;
+  const covered: React.CSSProperties = {
+    backgroundColor: cell.hidden,
+    borderStyle: 'solid',
+    borderWidth: 3,
+    borderColor: `${cell.light} ${cell.shade} ${cell.shade} ${cell.light}`,
+  };
+  const revealed: React.CSSProperties = { backgroundColor: cell.revealed, border: `1px solid ${cell.grid}` };
+  const box = 'w-6 h-6 flex items-center justify-center text-sm font-bold';
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex p-0.5" style={{ backgroundColor: theme.board }}>
+        <div className={box} style={{ ...covered, color: cell.mark }}><ThemeGlyph glyph={theme.glyphs.flag} /></div>
+        <div className={box} style={covered} />
+        {[1, 2, 3].map(n => (
+          <div key={n} className={box} style={{ ...revealed, color: theme.numbers[n - 1] }}>{n}</div>
+        ))}
+        <div className={box} style={{ ...revealed, backgroundColor: cell.exploded, color: cell.mark }}>
+          <ThemeGlyph glyph={theme.glyphs.mine} />
+        </div>
+      </div>
+      <div
+        className="px-1 text-xl font-bold border-2 rounded digital-font tracking-widest"
+        style={{ backgroundColor: theme.led.background, color: theme.led.digits, borderColor: theme.led.border }}
+      >
+        042
+      </div>
+    </div>
+  );
+};
+
+const ThemeDialog: React.FC<ThemeDialogProps> = ({ themes, selectedId, onSelect, onImport, onDelete, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+  const selected = themes.find(t => t.id === selectedId) ?? themes[0];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseTheme(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '无法读取主题。');
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-0.5 text-xs font-bold text-slate-700 bg-white border-2 border-slate-400 rounded hover:bg-slate-100';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-3 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl w-full max-w-md flex flex-col gap-3 max-h-[90vh]">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span className="flex items-center gap-1"><Palette size={16} /> 外观主题</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1 overflow-y-auto" role="radiogroup" aria-label="主题">
+          {themes.map(theme => (
+            <div
+              key={theme.id}
+              className={`flex items-center gap-2 p-1.5 border-2 rounded ${theme.id === selected.id ? 'border-slate-700 bg-white' : 'border-slate-400 bg-slate-200'}`}
+            >
+              <button
+                role="radio"
+                aria-checked={theme.id === selected.id}
+                onClick={() => onSelect(theme.id)}
+                className="flex-1 flex items-center justify-between gap-2 text-left"
+              >
+                <span className="flex items-center gap-1 text-xs font-bold text-slate-700">
+                  {theme.id === selected.id && <Check size={12} />}
+                  {theme.name}
+                </span>
+                <ThemePreview theme={theme} />
+              </button>
+              {theme.id.startsWith(CUSTOM_THEME_PREFIX) && (
+                <button onClick={() => onDelete(theme.id)} title="删除这个主题" className="p-1 text-slate-600 hover:bg-slate-300 rounded">
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="text-xs text-red-700">{error}</div>}
+        <div className="flex gap-2">
+          <label className={`${buttonClass} cursor-pointer`}>
+            <Upload size={12} /> 导入 JSON
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+          </label>
+          <button onClick={() => downloadTheme(selected)} title="下载当前主题，可作为自制主题的模板" className={buttonClass}>
+            <Download size={12} /> 导出当前主题
+          </button>
+        </div>
+        <div className="text-[10px] text-slate-500">
+          主题文件是 JSON，需要 name，其余字段（cell、numbers、glyphs、led、board、probability）缺省时沿用经典主题。
+          颜色写作 #rrggbb（或带透明度的 #rrggbbaa）；图案可以是 emoji，也可以是 24x24 的 SVG 路径。同名的导入主题会被替换。
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeDialog;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { ThemeGlyph as Glyph } from '../theme';
+
+interface ThemeGlyphProps {
+  glyph: Glyph;
+}
+
+// A theme's mine or flag: text as it is, SVG paths at the size of the surrounding text
+const ThemeGlyph: React.FC<ThemeGlyphProps> = ({ glyph }) => {
+  if (typeof glyph === 'string') return <>{glyph}</>;
+  return (
+    <svg viewBox="0 0 24 24" width="1em" height="1em" aria-hidden="true">
+      <path d={glyph.path} fill={glyph.color} />
+    </svg>
+  );
+};
+
+export default ThemeGlyph;
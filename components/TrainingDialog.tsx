@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { CellState, TopologyId } from '../types';
+import { DIFFICULTIES } from '../gameEngine';
+import { getTopology } from '../topology';
+import { cellName } from '../solver';
+import { DRILL_LEVELS, Drill, DrillGrade, DrillLevel, DrillPick, drillKey, drillView, generateDrill, gradeDrill } from '../training';
+import MineCell from './MineCell';
+import BoardLayout from './BoardLayout';
+import { Check, RefreshCw, X } from 'lucide-react';
+
+interface TrainingDialogProps {
+  topology?: TopologyId; // Drills are played on the current board type
+  onClose: () => void;
+}
+
+type Outcome = 'correct' | 'wrong' | 'missed';
+
+const OUTCOME_RINGS: Record<Outcome, string> = {
+  correct: 'ring-emerald-500',
+  wrong: 'ring-red-500',
+  missed: 'ring-amber-400',
+};
+
+const TrainingDialog: React.FC<TrainingDialogProps> = ({ topology, onClose }) => {
+  const [level, setLevel] = useState<DrillLevel>('simple');
+  const [sizeKey, setSizeKey] = useState('INTERMEDIATE');
+  const [drill, setDrill] = useState<Drill | null>(null);
+  const [picks, setPicks] = useState<Map<string, DrillPick>>(new Map());
+  const [grade, setGrade] = useState<DrillGrade | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [score, setScore] = useState({ solved: 0, attempted: 0 });
+
+  // Generation plays whole games, so it runs after the "生成中" state has rendered
+  const nextDrill = () => {
+    setGenerating(true);
+    setTimeout(() => {
+      const next = generateDrill(level, { ...DIFFICULTIES[sizeKey], topology });
+      setDrill(next);
+      setPicks(new Map());
+      setGrade(null);
+      setMessage(next ? null : '没有找到这个难度的局面，请再试一次或换一个棋盘大小。');
+      setGenerating(false);
+    }, 0);
+  };
+
+  useEffect(nextDrill, [level, sizeKey, topology]);
+
+  const pick = (row: number, col: number, value: DrillPick) => {
+    if (!drill || grade || drill.board[row][col].state !== CellState.HIDDEN) return;
+    const next = new Map(picks);
+    const key = drillKey({ row, col });
+    if (next.get(key) === value) next.delete(key);
+    else next.set(key, value);
+    setPicks(next);
+  };
+
+  const check = () => {
+    if (!drill) return;
+    const result = gradeDrill(drill, picks);
+    setGrade(result);
+    const perfect = result.wrong.length === 0 && result.missed.length === 0;
+    setScore(s => ({ solved: s.solved + (perfect ? 1 : 0), attempted: s.attempted + 1 }));
+  };
+
+  const outcomes = new Map<string, Outcome>();
+  grade?.correct.forEach(ref => outcomes.set(drillKey(ref), 'correct'));
+  grade?.wrong.forEach(f => outcomes.set(drillKey(f.ref), 'wrong'));
+  grade?.missed.forEach(f => outcomes.set(drillKey(f.ref), 'missed'));
+
+  const selectClass = 'px-1 py-0.5 border-2 border-slate-400 bg-white text-xs focus:outline-none';
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 text-xs font-bold text-white bg-slate-600 hover:bg-slate-500 rounded disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-300 p-2 border-t-white border-l-white border-b-slate-500 border-r-slate-500 border-4 shadow-2xl max-w-full max-h-[95vh] flex flex-col gap-2">
+        <div className="flex justify-between items-center text-sm font-bold text-slate-700">
+          <span>推理练习 · {getTopology(topology).name}</span>
+          <button onClick={onClose} title="关闭" className="p-1 hover:bg-slate-400 rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-700">
+          <select value={level} onChange={(e) => setLevel(e.target.value as DrillLevel)} className={selectClass}>
+            {(Object.keys(DRILL_LEVELS) as DrillLevel[]).map(key => (
+              <option key={key} value={key}>{DRILL_LEVELS[key].name}</option>
+            ))}
+          </select>
+          <select value={sizeKey} onChange={(e) => setSizeKey(e.target.value)} className={selectClass}>
+            {Object.entries(DIFFICULTIES).map(([key, d]) => (
+              <option key={key} value={key}>{d.name} {d.rows}x{d.cols}</option>
+            ))}
+          </select>
+          <span className="flex-1">{DRILL_LEVELS[level].description}</span>
+          <span className="font-mono">答对 {score.solved} / {score.attempted}</span>
+        </div>
+
+        {generating && <div className="text-xs text-slate-600">正在生成局面…</div>}
+        {message && <div className="text-xs text-red-700">{message}</div>}
+
+        {drill && !generating && (
+          <>
+            <div className="text-xs text-slate-700">
+              这个局面里有 {drill.deductions.length} 个格子可以确定（已找到的地雷插了旗）。左键标记安全，右键标记地雷，然后检查。
+            </div>
+            <div className="overflow-auto border-t-slate-500 border-l-slate-500 border-b-white border-r-white border-4 bg-[color:var(--ms-board)] no-scrollbar">
+              <BoardLayout
+                board={drillView(drill, picks)}
+                topology={drill.difficulty.topology}
+                gridProps={{ 'aria-label': `推理练习棋盘，${drill.difficulty.rows} 行 ${drill.difficulty.cols} 列，${drill.difficulty.mines} 个地雷` }}
+                renderCell={(cell) => {
+                  const key = drillKey(cell);
+                  const outcome = outcomes.get(key);
+                  const ring = outcome ? `z-10 ring-4 ${OUTCOME_RINGS[outcome]}` : picks.get(key) === 'safe' ? 'z-10 ring-4 ring-sky-400' : '';
+                  return (
+                    <div key={key} className={`relative ${ring}`}>
+                      <MineCell
+                        data={cell}
+                        onClick={(r, c) => pick(r, c, 'safe')}
+                        onContextMenu={(r, c) => pick(r, c, 'mine')}
+                      />
+                    </div>
+                  );
+                }}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={check} disabled={!!grade} className={buttonClass}>
+                <Check size={12} /> 检查
+              </button>
+              <button onClick={nextDrill} className={buttonClass}>
+                <RefreshCw size={12} /> 下一题
+              </button>
+            </div>
+          </>
+        )}
+
+        {grade && (
+          <div className="flex flex-col gap-1 text-xs max-w-xl max-h-48 overflow-y-auto" role="status">
+            <div className="font-bold text-slate-700">
+              {grade.wrong.length === 0 && grade.missed.length === 0
+                ? '全部正确！'
+                : `答对 ${grade.correct.length} 个，错 ${grade.wrong.length} 个，漏 ${grade.missed.length} 个。`}
+            </div>
+            {grade.wrong.map(f => (
+              <div key={drillKey(f.ref)} className="px-2 py-1 bg-red-50 border border-red-300 rounded">
+                <span className="font-bold">错误 {cellName(f.ref)}：</span>{f.explanation}
+              </div>
+            ))}
+            {grade.missed.map(f => (
+              <div key={drillKey(f.ref)} className="px-2 py-1 bg-amber-50 border border-amber-300 rounded">
+                <span className="font-bold">遗漏 {cellName(f.ref)}：</span>{f.explanation}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrainingDialog;
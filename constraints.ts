@@ -0,0 +1,199 @@
+import { CellData, CellState, CellValue, TopologyId } from './types';
+import { getNeighbors } from './gameEngine';
+
+// Constraint machinery shared by the solver and the probability engine.
+
+// A revealed number expressed as "exactly `mines` of these unknown cells are mines".
+// Cells are addressed by their flat index (row * cols + col).
+export interface Constraint {
+  source: number;
+  cells: number[];
+  mines: number;
+}
+
+export interface ComponentSolutions {
+  cells: number[];
+  constraints: Constraint[];
+  exact: boolean; // False when the component was too large to enumerate
+  solutionCounts: number[]; // solutionCounts[k] = number of assignments placing exactly k mines
+  mineCounts: number[][]; // mineCounts[k][i] = how many of those assignments put a mine on cells[i]
+}
+
+// Components beyond these limits are not enumerated; they still take part in the
+// global mine count, but only as "anywhere between 0 and size mines".
+const MAX_COMPONENT_SIZE = 48;
+const MAX_SEARCH_STEPS = 200000;
+
+export const isRevealed = (cell: CellData) => cell.state === CellState.REVEALED;
+
+export const buildConstraints = (
+  board: CellData[][],
+  known: Map<number, { isMine: boolean }>,
+  topology?: TopologyId
+): Constraint[] => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const constraints: Constraint[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = board[r][c];
+      if (!isRevealed(cell) || cell.value === CellValue.MINE) continue;
+
+      const cells: number[] = [];
+      let mines = cell.value;
+      for (const [nr, nc] of getNeighbors(rows, cols, r, c, topology)) {
+        if (isRevealed(board[nr][nc])) continue;
+        const idx = nr * cols + nc;
+        const deduction = known.get(idx);
+        if (deduction) {
+          if (deduction.isMine) mines--;
+        } else {
+          cells.push(idx);
+        }
+      }
+      if (cells.length > 0) {
+        constraints.push({ source: r * cols + c, cells, mines });
+      }
+    }
+  }
+  return constraints;
+};
+
+// Groups frontier cells that are linked (directly or transitively) by a shared constraint
+export const splitComponents = (constraints: Constraint[]): { cells: number[]; constraints: Constraint[] }[] => {
+  const parent = new Map<number, number>();
+  const find = (x: number): number => {
+    let root = x;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    while (parent.get(x) !== root) {
+      const next = parent.get(x)!;
+      parent.set(x, root);
+      x = next;
+    }
+    return root;
+  };
+
+  for (const con of constraints) {
+    for (const cell of con.cells) {
+      if (!parent.has(cell)) parent.set(cell, cell);
+    }
+    for (let i = 1; i < con.cells.length; i++) {
+      parent.set(find(con.cells[i]), find(con.cells[0]));
+    }
+  }
+
+  const groups = new Map<number, { cells: number[]; constraints: Constraint[] }>();
+  for (const cell of parent.keys()) {
+    const root = find(cell);
+    if (!groups.has(root)) groups.set(root, { cells: [], constraints: [] });
+    groups.get(root)!.cells.push(cell);
+  }
+  for (const con of constraints) {
+    groups.get(find(con.cells[0]))!.constraints.push(con);
+  }
+  return [...groups.values()];
+};
+
+// Backtracking over every mine assignment of a component that satisfies all of its constraints
+export const enumerateComponent = (cellsIn: number[], constraints: Constraint[]): ComponentSolutions => {
+  const n = cellsIn.length;
+  if (n > MAX_COMPONENT_SIZE) {
+    return { cells: cellsIn, constraints, exact: false, solutionCounts: [], mineCounts: [] };
+  }
+
+  // Visit cells constraint by constraint so that constraints close (and prune) early
+  const cells: number[] = [];
+  const seen = new Set<number>();
+  for (const con of constraints) {
+    for (const cell of con.cells) {
+      if (!seen.has(cell)) {
+        seen.add(cell);
+        cells.push(cell);
+      }
+    }
+  }
+
+  const position = new Map<number, number>();
+  cells.forEach((cell, i) => position.set(cell, i));
+  const cellConstraints: number[][] = cells.map(() => []);
+  constraints.forEach((con, ci) => {
+    for (const cell of con.cells) cellConstraints[position.get(cell)!].push(ci);
+  });
+
+  const placed = constraints.map(() => 0);
+  const open = constraints.map(con => con.cells.length);
+  const assignment = new Array<number>(n).fill(0);
+  const solutionCounts = new Array<number>(n + 1).fill(0);
+  const mineCounts = Array.from({ length: n + 1 }, () => new Array<number>(n).fill(0));
+  let steps = 0;
+  let aborted = false;
+
+  const search = (i: number, mines: number) => {
+    if (aborted) return;
+    if (++steps > MAX_SEARCH_STEPS) {
+      aborted = true;
+      return;
+    }
+    if (i === n) {
+      solutionCounts[mines]++;
+      for (let j = 0; j < n; j++) {
+        if (assignment[j]) mineCounts[mines][j]++;
+      }
+      return;
+    }
+
+    for (let value = 0; value <= 1; value++) {
+      let consistent = true;
+      for (const ci of cellConstraints[i]) {
+        placed[ci] += value;
+        open[ci]--;
+      }
+      for (const ci of cellConstraints[i]) {
+        const needed = constraints[ci].mines - placed[ci];
+        if (needed < 0 || needed > open[ci]) {
+          consistent = false;
+          break;
+        }
+      }
+      if (consistent) {
+        assignment[i] = value;
+        search(i + 1, mines + value);
+      }
+      for (const ci of cellConstraints[i]) {
+        placed[ci] -= value;
+        open[ci]++;
+      }
+    }
+    assignment[i] = 0;
+  };
+
+  search(0, 0);
+
+  if (aborted) {
+    return { cells, constraints, exact: false, solutionCounts: [], mineCounts: [] };
+  }
+  return { cells, constraints, exact: true, solutionCounts, mineCounts };
+};
+
+// Mine totals a component can account for, as a boolean lookup indexed by total
+export const possibleTotals = (component: ComponentSolutions): boolean[] => {
+  if (!component.exact) return new Array<boolean>(component.cells.length + 1).fill(true);
+  return component.solutionCounts.map(count => count > 0);
+};
+
+// Which overall totals can be reached by picking one possible total per component
+export const combineTotals = (totals: boolean[][]): boolean[] => {
+  let reachable = [true];
+  for (const options of totals) {
+    const next = new Array<boolean>(reachable.length + options.length - 1).fill(false);
+    reachable.forEach((ok, s) => {
+      if (!ok) return;
+      options.forEach((possible, k) => {
+        if (possible) next[s + k] = true;
+      });
+    });
+    reachable = next;
+  }
+  return reachable;
+};
@@ -0,0 +1,43 @@
+import { DIFFICULTIES } from './gameEngine';
+import { GameCode, encodeGameCode } from './gameCode';
+import { seedFromString } from './random';
+import { DEFAULT_TOPOLOGY } from './topology';
+
+// Daily challenge: one board per calendar day and preset, derived from the date alone, so
+// everyone playing on the same day gets the same board without any server.
+
+// Keys of the built-in presets in DIFFICULTIES
+export type DailyLevel = 'BEGINNER' | 'INTERMEDIATE' | 'EXPERT';
+
+export const DAILY_LEVELS: DailyLevel[] = ['BEGINNER', 'INTERMEDIATE', 'EXPERT'];
+
+// Local calendar date as YYYY-MM-DD
+export const dailyDate = (now: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// Date arithmetic on YYYY-MM-DD strings, in UTC so daylight saving never skips a day
+export const shiftDate = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+// Square board, first click in the centre (already opened, like a race), seed from date and level
+export const dailyGameCode = (date: string, level: DailyLevel): GameCode => {
+  const { rows, cols, mines } = DIFFICULTIES[level];
+  return {
+    rows,
+    cols,
+    mines,
+    firstRow: Math.floor(rows / 2),
+    firstCol: Math.floor(cols / 2),
+    seed: seedFromString(`daily:${date}:${level}`),
+    noGuess: false,
+    topology: DEFAULT_TOPOLOGY,
+  };
+};
+
+// The level whose daily board on `date` the game code describes, if any
+export const dailyLevelOfCode = (gameCode: string, date: string): DailyLevel | null =>
+  DAILY_LEVELS.find(level => encodeGameCode(dailyGameCode(date, level)) === gameCode) ?? null;
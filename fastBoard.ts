@@ -0,0 +1,252 @@
+import { CellData, CellRef, CellState, CellValue, TopologyId } from './types';
+import { Rng } from './random';
+import { Topology, getTopology } from './topology';
+
+// Compact board for the game engine: three bytes per cell in typed arrays instead of a
+// CellData object, with allocation-free neighbour walks, an iterative flood fill and a
+// running count of opened cells, so a move costs time in proportion to what it changes.
+// CellData stays the view the rest of the app reads (cell, toCells, patchView).
+
+const HIDDEN = 0;
+const REVEALED = 1;
+const FLAGGED = 2;
+const QUESTION = 3;
+
+const STATES: CellState[] = [CellState.HIDDEN, CellState.REVEALED, CellState.FLAGGED, CellState.QUESTION];
+const STATE_CODES: Record<CellState, number> = {
+  [CellState.HIDDEN]: HIDDEN,
+  [CellState.REVEALED]: REVEALED,
+  [CellState.FLAGGED]: FLAGGED,
+  [CellState.QUESTION]: QUESTION,
+};
+
+export interface FastMoveResult {
+  opened: number[]; // Indices of the cells the move revealed
+  hitMine: boolean;
+}
+
+export class FastBoard {
+  readonly rows: number;
+  readonly cols: number;
+  readonly size: number;
+  readonly mines: Uint8Array; // 1 where a mine is
+  readonly counts: Uint8Array; // Mines among each cell's neighbours
+  readonly states: Uint8Array;
+  exploded = -1; // Index of the mine that ended the game
+
+  private readonly topology: Topology;
+  private mineTotal = 0;
+  private flagTotal = 0;
+  private revealedSafe = 0;
+  private stack: Int32Array | null = null; // Flood-fill work list, kept between reveals
+
+  constructor(rows: number, cols: number, topology?: TopologyId) {
+    this.rows = rows;
+    this.cols = cols;
+    this.size = rows * cols;
+    this.topology = getTopology(topology);
+    this.mines = new Uint8Array(this.size);
+    this.counts = new Uint8Array(this.size);
+    this.states = new Uint8Array(this.size);
+  }
+
+  // Takes mines and cell states from a CellData board; numbers are recomputed
+  static fromCells(board: CellData[][], topology?: TopologyId): FastBoard {
+    const rows = board.length;
+    const fast = new FastBoard(rows, rows > 0 ? board[0].length : 0, topology);
+    let i = 0;
+    for (const row of board) {
+      for (const cell of row) {
+        fast.states[i] = STATE_CODES[cell.state];
+        if (cell.value === CellValue.MINE) {
+          fast.mines[i] = 1;
+          fast.mineTotal++;
+          if (cell.isExploded) fast.exploded = i;
+        } else if (cell.state === CellState.REVEALED) {
+          fast.revealedSafe++;
+        }
+        if (cell.state === CellState.FLAGGED) fast.flagTotal++;
+        i++;
+      }
+    }
+    fast.computeCounts();
+    return fast;
+  }
+
+  get mineCount(): number {
+    return this.mineTotal;
+  }
+
+  get flagCount(): number {
+    return this.flagTotal;
+  }
+
+  // Incremental win check: every safe cell is open
+  get isWon(): boolean {
+    return this.revealedSafe === this.size - this.mineTotal;
+  }
+
+  index(row: number, col: number): number {
+    return row * this.cols + col;
+  }
+
+  forEachNeighbor(index: number, visit: (neighbor: number) => void): void {
+    const { rows, cols } = this;
+    this.topology.forEachNeighbor(rows, cols, Math.floor(index / cols), index % cols, (r, c) => visit(r * cols + c));
+  }
+
+  // Random layout that keeps the safe cell and its neighbours clear. Draws cells exactly like
+  // placeMines always has, so seeds (game codes, replays) keep producing the same boards.
+  placeMines(count: number, safeRow: number, safeCol: number, rng: Rng = Math.random): void {
+    const { rows, cols } = this;
+    const safe = new Uint8Array(this.size);
+    safe[this.index(safeRow, safeCol)] = 1;
+    this.forEachNeighbor(this.index(safeRow, safeCol), n => { safe[n] = 1; });
+
+    let placed = 0;
+    while (placed < count) {
+      const r = Math.floor(rng() * rows);
+      const c = Math.floor(rng() * cols);
+      const i = r * cols + c;
+      if (!this.mines[i] && !safe[i]) {
+        this.mines[i] = 1;
+        placed++;
+      }
+    }
+    this.mineTotal += placed;
+    this.computeCounts();
+  }
+
+  computeCounts(): void {
+    const { mines, counts } = this;
+    counts.fill(0);
+    for (let i = 0; i < this.size; i++) {
+      if (!mines[i]) continue;
+      this.forEachNeighbor(i, n => { counts[n]++; });
+    }
+  }
+
+  // Plain hidden cells and question marks can be opened; flags protect a cell
+  isRevealable(index: number): boolean {
+    const state = this.states[index];
+    return state === HIDDEN || state === QUESTION;
+  }
+
+  // Opens a cell, flooding outwards from cells without neighbouring mines
+  reveal(index: number): FastMoveResult {
+    const opened: number[] = [];
+    if (!this.isRevealable(index)) return { opened, hitMine: false };
+
+    const { states, counts } = this;
+    states[index] = REVEALED;
+    opened.push(index);
+    if (this.mines[index]) {
+      this.exploded = index;
+      return { opened, hitMine: true };
+    }
+    this.revealedSafe++;
+    if (counts[index] !== 0) return { opened, hitMine: false };
+
+    // Cells are marked revealed when pushed, so each enters the stack at most once
+    if (!this.stack) this.stack = new Int32Array(this.size);
+    const stack = this.stack;
+    let top = 0;
+    stack[top++] = index;
+    const visit = (n: number) => {
+      const state = states[n];
+      if (state !== HIDDEN && state !== QUESTION) return;
+      states[n] = REVEALED; // A zero's neighbours are never mines
+      this.revealedSafe++;
+      opened.push(n);
+      if (counts[n] === 0) stack[top++] = n;
+    };
+    while (top > 0) this.forEachNeighbor(stack[--top], visit);
+    return { opened, hitMine: false };
+  }
+
+  // Opens the other neighbours of a number whose flags are all placed
+  chord(index: number): FastMoveResult & { changed: boolean } {
+    const none = { opened: [], hitMine: false, changed: false };
+    if (this.states[index] !== REVEALED || this.mines[index] || this.counts[index] === 0) return none;
+
+    let flags = 0;
+    const targets: number[] = [];
+    this.forEachNeighbor(index, n => {
+      if (this.states[n] === FLAGGED) flags++;
+      else if (this.isRevealable(n)) targets.push(n);
+    });
+    if (flags !== this.counts[index] || targets.length === 0) return none;
+
+    const opened: number[] = [];
+    let hitMine = false;
+    for (const target of targets) {
+      const result = this.reveal(target);
+      for (const n of result.opened) opened.push(n); // Spreading a huge flood would overflow the stack
+      hitMine = hitMine || result.hitMine;
+    }
+    return { opened, hitMine, changed: true };
+  }
+
+  // HIDDEN → FLAGGED → (QUESTION →) HIDDEN; null for revealed cells
+  cycleMark(index: number, useQuestionMarks: boolean): { state: CellState; flagDelta: number } | null {
+    const state = this.states[index];
+    let next: number;
+    let flagDelta = 0;
+    if (state === HIDDEN) {
+      next = FLAGGED;
+      flagDelta = 1;
+    } else if (state === FLAGGED) {
+      next = useQuestionMarks ? QUESTION : HIDDEN;
+      flagDelta = -1;
+    } else if (state === QUESTION) {
+      next = HIDDEN;
+    } else {
+      return null;
+    }
+    this.states[index] = next;
+    this.flagTotal += flagDelta;
+    return { state: STATES[next], flagDelta };
+  }
+
+  ref(index: number): CellRef {
+    return { row: Math.floor(index / this.cols), col: index % this.cols };
+  }
+
+  cell(index: number): CellData {
+    const { row, col } = this.ref(index);
+    const cell: CellData = {
+      row,
+      col,
+      value: this.mines[index] ? CellValue.MINE : this.counts[index],
+      state: STATES[this.states[index]],
+    };
+    if (index === this.exploded) cell.isExploded = true;
+    return cell;
+  }
+
+  toCells(): CellData[][] {
+    const board: CellData[][] = [];
+    for (let r = 0; r < this.rows; r++) {
+      const row: CellData[] = [];
+      for (let c = 0; c < this.cols; c++) row.push(this.cell(r * this.cols + c));
+      board.push(row);
+    }
+    return board;
+  }
+
+  // Brings a CellData view up to date after a move. Only the rows holding changed cells
+  // are copied; everything else keeps its identity (cheap undo snapshots, React diffing).
+  patchView(board: CellData[][], changed: Iterable<number>): CellData[][] {
+    const next = [...board];
+    const copied = new Set<number>();
+    for (const index of changed) {
+      const r = Math.floor(index / this.cols);
+      if (!copied.has(r)) {
+        next[r] = [...board[r]];
+        copied.add(r);
+      }
+      next[r][index % this.cols] = this.cell(index);
+    }
+    return next;
+  }
+}
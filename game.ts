@@ -0,0 +1,317 @@
+import { CellData, CellRef, CellState, Difficulty, GameStatus } from './types';
+import { createEmptyBoard, placeMines, revealAllMines } from './gameEngine';
+import { FastBoard } from './fastBoard';
+import { generateNoGuessBoard } from './noGuess';
+import { createRng, randomSeed } from './random';
+import { GameCode, codeMatchesDifficulty, encodeGameCode } from './gameCode';
+import { ReplayAction, ReplayActionType } from './replay';
+import { DEFAULT_TOPOLOGY } from './topology';
+
+// Headless game: board, status, clock and mine counter behind a small event API.
+// The React app and the terminal client both play through this class rather than
+// combining the rule functions of gameEngine.ts themselves.
+
+export interface GameEventMap {
+  // The first reveal dealt the mines; the code regenerates this exact board (null for imported layouts)
+  started: { gameCode: string | null; notice: string | null };
+  cellsRevealed: { cells: CellRef[] };
+  flagChanged: { row: number; col: number; state: CellState; minesLeft: number };
+  won: { timeMs: number };
+  lost: { row: number; col: number; timeMs: number }; // The mine that went off
+  // Any state change, including restores; front ends re-render from this one
+  changed: { board: CellData[][]; status: GameStatus; minesLeft: number };
+}
+
+export type GameEventName = keyof GameEventMap;
+export type GameListener<K extends GameEventName> = (event: GameEventMap[K]) => void;
+
+export interface GameOptions {
+  difficulty: Difficulty;
+  noGuess?: boolean;
+  seed?: number; // Seed for the first-move layout; random when absent
+  now?: () => number; // Clock in milliseconds, replaceable for scripted play
+}
+
+// Everything needed to put a game back into an earlier position (undo, saved games)
+export interface GameSnapshot {
+  board: CellData[][];
+  status: GameStatus;
+  minesLeft: number;
+  elapsedMs: number;
+  gameCode: string | null;
+  actions: ReplayAction[];
+}
+
+// The no-guess generator runs the solver over whole layouts; past this size (50x50) its work
+// budget runs out before any layout is proven, so plain random layouts are dealt straight away
+export const NO_GUESS_MAX_CELLS = 2500;
+
+// Builds the mine layout described by a game code; the same code always yields the same board
+export const generateLayout = (
+  board: CellData[][],
+  difficulty: Difficulty,
+  code: GameCode
+): { board: CellData[][]; notice: string | null } => {
+  const rng = createRng(code.seed);
+  if (code.noGuess && difficulty.rows * difficulty.cols > NO_GUESS_MAX_CELLS) {
+    return {
+      board: placeMines(board, difficulty, code.firstRow, code.firstCol, rng),
+      notice: `棋盘超过 ${NO_GUESS_MAX_CELLS} 格，无法生成无猜局面，本局使用普通随机布局。`,
+    };
+  }
+  if (code.noGuess) {
+    const result = generateNoGuessBoard(board, difficulty, code.firstRow, code.firstCol, { rng });
+    return {
+      board: result.board,
+      notice: result.solvable ? null : `未能在 ${result.attempts} 次尝试内生成无猜局面，本局使用普通随机布局。`,
+    };
+  }
+  return { board: placeMines(board, difficulty, code.firstRow, code.firstCol, rng), notice: null };
+};
+
+export class MinesweeperGame {
+  readonly difficulty: Difficulty;
+  noGuess: boolean; // Read by the first reveal, so it may still change until then
+
+  private _board: CellData[][]; // CellData view of fast, patched after every move
+  private fast: FastBoard; // The board the rules run on
+  private layout: CellData[][] | null = null; // Prepared mines the first reveal uses instead of dealing
+  private _status = GameStatus.IDLE;
+  private _minesLeft: number;
+  private _gameCode: string | null = null;
+  private _actions: ReplayAction[] = [];
+  private startedAt: number | null = null;
+  private endedAt: number | null = null;
+  private readonly seed: number | undefined;
+  private readonly now: () => number;
+  // One set per event, keyed so each holds listeners of its own payload type
+  private readonly listeners: { [K in GameEventName]: Set<GameListener<K>> } = {
+    started: new Set(),
+    cellsRevealed: new Set(),
+    flagChanged: new Set(),
+    won: new Set(),
+    lost: new Set(),
+    changed: new Set(),
+  };
+
+  constructor(options: GameOptions) {
+    this.difficulty = options.difficulty;
+    this.noGuess = options.noGuess ?? false;
+    this.seed = options.seed;
+    this.now = options.now ?? Date.now;
+    this._board = createEmptyBoard(this.difficulty.rows, this.difficulty.cols);
+    this.fast = new FastBoard(this.difficulty.rows, this.difficulty.cols, this.difficulty.topology);
+    this._minesLeft = this.difficulty.mines;
+  }
+
+  get board(): CellData[][] {
+    return this._board;
+  }
+
+  get status(): GameStatus {
+    return this._status;
+  }
+
+  get minesLeft(): number {
+    return this._minesLeft;
+  }
+
+  get gameCode(): string | null {
+    return this._gameCode;
+  }
+
+  // Every move that changed the board, timed from the first reveal (the replay format)
+  get actions(): ReplayAction[] {
+    return this._actions;
+  }
+
+  get isOver(): boolean {
+    return this._status === GameStatus.WON || this._status === GameStatus.LOST;
+  }
+
+  // Time since the first reveal, frozen once the game ends
+  get elapsedMs(): number {
+    if (this.startedAt === null) return 0;
+    return (this.endedAt ?? this.now()) - this.startedAt;
+  }
+
+  // Subscribes to an event; returns the matching unsubscribe function
+  on<K extends GameEventName>(event: K, listener: GameListener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends GameEventName>(event: K, listener: GameListener<K>): void {
+    this.listeners[event].delete(listener);
+  }
+
+  // Opens a cell; the first reveal deals the mines around it. Returns false when nothing changed
+  // (flagged or already revealed cells, finished games).
+  reveal(row: number, col: number): boolean {
+    if (this.isOver || !this.inBounds(row, col)) return false;
+    const cell = this._board[row][col];
+    if (cell.state !== CellState.HIDDEN && cell.state !== CellState.QUESTION) return false;
+
+    if (this._status === GameStatus.IDLE && this.layout) {
+      this.begin(this.withMarks(this.layout), null, null);
+    } else if (this._status === GameStatus.IDLE) {
+      this.deal({
+        rows: this.difficulty.rows,
+        cols: this.difficulty.cols,
+        mines: this.difficulty.mines,
+        firstRow: row,
+        firstCol: col,
+        seed: this.seed ?? randomSeed(),
+        noGuess: this.noGuess,
+        topology: this.difficulty.topology ?? DEFAULT_TOPOLOGY,
+      });
+    }
+
+    this.record('reveal', row, col);
+    this.finishMove(this.fast.reveal(this.fast.index(row, col)));
+    return true;
+  }
+
+  // Deals the board of a shared game code and plays its first click. Only valid before the first move.
+  startFromCode(code: GameCode): void {
+    if (this._status !== GameStatus.IDLE) throw new Error('对局已经开始，无法再载入对局代码。');
+    if (!codeMatchesDifficulty(code, this.difficulty)) throw new Error('对局代码与当前难度不符。');
+    this.deal(code);
+    this.record('reveal', code.firstRow, code.firstCol);
+    this.finishMove(this.fast.reveal(this.fast.index(code.firstRow, code.firstCol)));
+  }
+
+  // Plays a prepared mine layout (an imported board) instead of dealing one. The first click gets no
+  // safe zone. Cells the layout has flagged or revealed are played as moves, so replays include them.
+  // Only valid before the first move.
+  startFromLayout(board: CellData[][]): void {
+    if (this._status !== GameStatus.IDLE) throw new Error('对局已经开始，无法再载入棋盘。');
+    const { rows, cols, mines } = this.difficulty;
+    if (board.length !== rows || board.some(row => row.length !== cols)) throw new Error('棋盘大小与当前难度不符。');
+    const layout = board.map(row => row.map(({ row, col, value }) => ({ row, col, value, state: CellState.HIDDEN })));
+    if (FastBoard.fromCells(layout, this.difficulty.topology).mineCount !== mines) throw new Error('棋盘的地雷数与当前难度不符。');
+
+    this.layout = layout;
+    for (const cell of board.flat()) {
+      if (cell.state === CellState.FLAGGED) this.flag(cell.row, cell.col);
+    }
+    for (const cell of board.flat()) {
+      if (cell.state === CellState.REVEALED) this.reveal(cell.row, cell.col);
+    }
+  }
+
+  // Reveals the other neighbours of a number whose flags are all placed
+  chord(row: number, col: number): boolean {
+    if (this._status !== GameStatus.PLAYING || !this.inBounds(row, col)) return false;
+    const result = this.fast.chord(this.fast.index(row, col));
+    if (!result.changed) return false;
+    this.record('chord', row, col);
+    this.finishMove(result);
+    return true;
+  }
+
+  // Toggles a flag
+  flag(row: number, col: number): boolean {
+    return this.cycleMark(row, col, false);
+  }
+
+  // Right-click marking: flag, then (optionally) question mark, then back to hidden
+  cycleMark(row: number, col: number, useQuestionMarks: boolean): boolean {
+    if (this.isOver || !this.inBounds(row, col)) return false;
+    const index = this.fast.index(row, col);
+    const mark = this.fast.cycleMark(index, useQuestionMarks);
+    if (!mark) return false;
+
+    const { state, flagDelta } = mark;
+    this.record(state === CellState.FLAGGED ? 'flag' : state === CellState.QUESTION ? 'question' : 'unflag', row, col);
+    this._board = this.fast.patchView(this._board, [index]);
+    this._minesLeft -= flagDelta;
+    this.emit('flagChanged', { row, col, state, minesLeft: this._minesLeft });
+    this.emitChanged();
+    return true;
+  }
+
+  snapshot(): GameSnapshot {
+    return {
+      board: this._board,
+      status: this._status,
+      minesLeft: this._minesLeft,
+      elapsedMs: this.elapsedMs,
+      gameCode: this._gameCode,
+      actions: [...this._actions],
+    };
+  }
+
+  // Puts the game back into a snapshot's position. The clock keeps running from the
+  // current time, so stepping back a move does not rewind it.
+  restore(snapshot: GameSnapshot, options: { resetClock?: boolean } = {}): void {
+    this._board = snapshot.board;
+    this.fast = FastBoard.fromCells(snapshot.board, this.difficulty.topology);
+    this._status = snapshot.status;
+    this._minesLeft = snapshot.minesLeft;
+    this._gameCode = snapshot.gameCode;
+    this._actions = [...snapshot.actions];
+    if (options.resetClock || this.startedAt === null) {
+      this.startedAt = snapshot.status === GameStatus.IDLE ? null : this.now() - snapshot.elapsedMs;
+    }
+    this.endedAt = this.isOver && this.startedAt !== null ? this.startedAt + snapshot.elapsedMs : null;
+    this.emitChanged();
+  }
+
+  private inBounds(row: number, col: number): boolean {
+    return row >= 0 && row < this.difficulty.rows && col >= 0 && col < this.difficulty.cols;
+  }
+
+  private deal(code: GameCode): void {
+    const layout = generateLayout(this._board, this.difficulty, code);
+    this.begin(layout.board, encodeGameCode(code), layout.notice);
+  }
+
+  // The prepared layout, keeping the marks placed before the first reveal
+  private withMarks(layout: CellData[][]): CellData[][] {
+    return layout.map((row, r) => row.map((cell, c) => ({ ...cell, state: this._board[r][c].state })));
+  }
+
+  private begin(board: CellData[][], gameCode: string | null, notice: string | null): void {
+    this._board = board;
+    this.fast = FastBoard.fromCells(board, this.difficulty.topology);
+    this._status = GameStatus.PLAYING;
+    this.startedAt = this.now();
+    this._gameCode = gameCode;
+    this.emit('started', { gameCode, notice });
+  }
+
+  private record(type: ReplayActionType, row: number, col: number): void {
+    const t = this.startedAt === null ? 0 : this.now() - this.startedAt;
+    this._actions.push({ t, type, row, col });
+  }
+
+  // Shared end-of-move bookkeeping for reveals and chords
+  private finishMove({ opened, hitMine }: { opened: number[]; hitMine: boolean }): void {
+    // Only the opened cells are rebuilt; the rest of the view is shared with the previous board
+    this._board = this.fast.patchView(this._board, opened);
+    this.emit('cellsRevealed', { cells: opened.map(index => this.fast.ref(index)) });
+
+    if (hitMine) {
+      this.endedAt = this.now();
+      this._status = GameStatus.LOST;
+      this._board = revealAllMines(this._board);
+      const exploded = this.fast.ref(this.fast.exploded);
+      this.emit('lost', { row: exploded.row, col: exploded.col, timeMs: this.elapsedMs });
+    } else if (this.fast.isWon) {
+      this.endedAt = this.now();
+      this._status = GameStatus.WON;
+      this._minesLeft = 0;
+      this.emit('won', { timeMs: this.elapsedMs });
+    }
+    this.emitChanged();
+  }
+
+  private emitChanged(): void {
+    this.emit('changed', { board: this._board, status: this._status, minesLeft: this._minesLeft });
+  }
+
+  private emit<K extends GameEventName>(event: K, payload: GameEventMap[K]): void {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+}
@@ -0,0 +1,96 @@
+import { Difficulty, TopologyId } from './types';
+import { validateDifficulty } from './gameEngine';
+import { DEFAULT_TOPOLOGY } from './topology';
+
+// Shareable game codes: everything needed to regenerate a board exactly.
+// Layout: "<rows>.<cols>.<mines>-<row>.<col>-<seed>[-n][-<topology>]", all numbers in base 36,
+// the optional "-n" suffix marking a no-guess layout and the topology suffix ("h", "t" or "k")
+// a non-square board. Example: "g.u.2r-8.f-1ekv3ab-n"
+
+export interface GameCode {
+  rows: number;
+  cols: number;
+  mines: number;
+  firstRow: number;
+  firstCol: number;
+  seed: number;
+  noGuess: boolean;
+  topology: TopologyId;
+}
+
+export const GAME_CODE_PARAM = 'game';
+
+const NO_GUESS_SUFFIX = 'n';
+
+// The square grid has no suffix, so codes from before topologies existed stay valid
+const TOPOLOGY_SUFFIXES: Record<Exclude<TopologyId, 'square'>, string> = {
+  hex: 'h',
+  torus: 't',
+  knight: 'k',
+};
+
+export const encodeGameCode = (code: GameCode): string => {
+  const b36 = (n: number) => n.toString(36);
+  const parts = [
+    [code.rows, code.cols, code.mines].map(b36).join('.'),
+    [code.firstRow, code.firstCol].map(b36).join('.'),
+    b36(code.seed >>> 0),
+  ];
+  if (code.noGuess) parts.push(NO_GUESS_SUFFIX);
+  if (code.topology !== DEFAULT_TOPOLOGY) parts.push(TOPOLOGY_SUFFIXES[code.topology]);
+  return parts.join('-');
+};
+
+// Returns null for anything malformed or describing an impossible board
+export const decodeGameCode = (text: string): GameCode | null => {
+  const parts = text.trim().toLowerCase().split('-');
+  if (parts.length < 3) return null;
+
+  // Optional suffixes, in order: no-guess flag, then topology
+  const suffixes = parts.slice(3);
+  const noGuess = suffixes[0] === NO_GUESS_SUFFIX;
+  if (noGuess) suffixes.shift();
+  let topology: TopologyId = DEFAULT_TOPOLOGY;
+  if (suffixes.length > 0) {
+    const entry = Object.entries(TOPOLOGY_SUFFIXES).find(([, suffix]) => suffix === suffixes[0]);
+    if (!entry) return null;
+    topology = entry[0] as TopologyId;
+    suffixes.shift();
+  }
+  if (suffixes.length > 0) return null;
+
+  const parse = (segment: string, count: number): number[] | null => {
+    const values = segment.split('.');
+    if (values.length !== count || values.some(v => !/^[0-9a-z]+$/.test(v))) return null;
+    return values.map(v => parseInt(v, 36));
+  };
+
+  const size = parse(parts[0], 3);
+  const start = parse(parts[1], 2);
+  const seed = parse(parts[2], 1);
+  if (!size || !start || !seed) return null;
+
+  const [rows, cols, mines] = size;
+  const [firstRow, firstCol] = start;
+  if (validateDifficulty({ rows, cols, mines }) || firstRow >= rows || firstCol >= cols) return null;
+  if (seed[0] > 0xffffffff) return null;
+
+  return { rows, cols, mines, firstRow, firstCol, seed: seed[0], noGuess, topology };
+};
+
+export const codeMatchesDifficulty = (code: GameCode, difficulty: Difficulty): boolean =>
+  code.rows === difficulty.rows && code.cols === difficulty.cols && code.mines === difficulty.mines &&
+  code.topology === (difficulty.topology ?? DEFAULT_TOPOLOGY);
+
+export const readGameCodeFromUrl = (): GameCode | null => {
+  const param = new URLSearchParams(window.location.search).get(GAME_CODE_PARAM);
+  return param ? decodeGameCode(param) : null;
+};
+
+// Keeps the address bar in sync without adding history entries; null clears the code
+export const writeGameCodeToUrl = (code: string | null) => {
+  const url = new URL(window.location.href);
+  if (code) url.searchParams.set(GAME_CODE_PARAM, code);
+  else url.searchParams.delete(GAME_CODE_PARAM);
+  window.history.replaceState(null, '', url.toString());
+};
@@ -1,4 +1,7 @@
-import { CellData, CellState, CellValue, Difficulty } from './types';
+import { CellData, CellState, CellValue, Difficulty, TopologyId } from './types';
+import { Rng } from './random';
+import { getTopology, isTopologyId } from './topology';
+import { FastBoard } from './fastBoard';
 
 export const createEmptyBoard = (rows: number, cols: number): CellData[][] => {
   const board: CellData[][] = [];
@@ -17,119 +20,239 @@ export const createEmptyBoard = (rows: number, cols: number): CellData[][] => {
   return board;
 };
 
-// Places mines avoiding the first clicked cell (safe start)
+// Coordinates of the cells neighbouring (row, col) on the board, per the topology
+// (the 8 surrounding cells on the default square grid)
+export const getNeighbors = (
+  rows: number,
+  cols: number,
+  row: number,
+  col: number,
+  topology?: TopologyId
+): [number, number][] => getTopology(topology).neighbors(rows, cols, row, col);
+
+// Difficulty Presets
+export const DIFFICULTIES: Record<string, Difficulty> = {
+  BEGINNER: { name: '初级', rows: 9, cols: 9, mines: 10 },
+  INTERMEDIATE: { name: '中级', rows: 16, cols: 16, mines: 40 },
+  EXPERT: { name: '高级', rows: 16, cols: 30, mines: 99 },
+};
+
+// Board size limits enforced by the engine
+export const BOARD_LIMITS = {
+  minSize: 5,
+  maxSize: 1000,
+  minMines: 1,
+  safeZoneCells: 9, // The first click and its neighbours never hold a mine (at most 9 cells in every topology)
+};
+
+export const maxMinesFor = (rows: number, cols: number) => rows * cols - BOARD_LIMITS.safeZoneCells;
+
+// Returns a readable error for boards the engine cannot generate, or null when valid
+export const validateDifficulty = (
+  { rows, cols, mines, topology }: Pick<Difficulty, 'rows' | 'cols' | 'mines' | 'topology'>
+): string | null => {
+  const { minSize, maxSize, minMines } = BOARD_LIMITS;
+  if (topology !== undefined && !isTopologyId(topology)) return '未知的棋盘类型。';
+  if (![rows, cols, mines].every(Number.isInteger)) return '行数、列数和地雷数必须是整数。';
+  if (rows < minSize || rows > maxSize) return `行数必须在 ${minSize} 到 ${maxSize} 之间。`;
+  if (cols < minSize || cols > maxSize) return `列数必须在 ${minSize} 到 ${maxSize} 之间。`;
+  if (mines < minMines) return `地雷数至少为 ${minMines}。`;
+  const maxMines = maxMinesFor(rows, cols);
+  if (mines > maxMines) return `${rows}x${cols} 的棋盘最多只能放 ${maxMines} 个地雷（首次点击的格子及其邻格必须安全）。`;
+  return null;
+};
+
+// Places mines avoiding the first clicked cell (safe start).
+// Pass a seeded rng to get a reproducible layout.
 export const placeMines = (
   board: CellData[][],
   difficulty: Difficulty,
   safeRow: number,
-  safeCol: number
+  safeCol: number,
+  rng: Rng = Math.random
 ): CellData[][] => {
-  const newBoard = JSON.parse(JSON.stringify(board)); // Deep copy
-  let minesPlaced = 0;
-  const totalCells = difficulty.rows * difficulty.cols;
-  
-  // Create a pool of available indices, excluding the safe starting zone (cell + neighbors)
-  const safeZone = new Set<string>();
-  for (let r = safeRow - 1; r <= safeRow + 1; r++) {
-    for (let c = safeCol - 1; c <= safeCol + 1; c++) {
-      safeZone.add(`${r},${c}`);
-    }
+  // Impossible configurations would otherwise loop forever below
+  const error = validateDifficulty(difficulty);
+  if (error) throw new Error(error);
+
+  // The safe zone is the clicked cell plus its neighbours; cell states carry over
+  const fast = FastBoard.fromCells(board, difficulty.topology);
+  fast.placeMines(difficulty.mines, safeRow, safeCol, rng);
+  return fast.toCells();
+};
+
+// Rebuilds a fully hidden board from a list of mine coordinates
+export const boardFromMines = (
+  rows: number,
+  cols: number,
+  mines: [number, number][],
+  topology?: TopologyId
+): CellData[][] => {
+  const board = createEmptyBoard(rows, cols);
+  for (const [r, c] of mines) {
+    board[r][c].value = CellValue.MINE;
   }
+  return calculateNumbers(board, topology);
+};
 
-  while (minesPlaced < difficulty.mines) {
-    const r = Math.floor(Math.random() * difficulty.rows);
-    const c = Math.floor(Math.random() * difficulty.cols);
-    
-    if (newBoard[r][c].value !== CellValue.MINE && !safeZone.has(`${r},${c}`)) {
-      newBoard[r][c].value = CellValue.MINE;
-      minesPlaced++;
+// Coordinates of every mine on the board
+export const getMinePositions = (board: CellData[][]): [number, number][] => {
+  const mines: [number, number][] = [];
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell.value === CellValue.MINE) mines.push([cell.row, cell.col]);
     }
   }
+  return mines;
+};
 
-  // Calculate numbers
-  for (let r = 0; r < difficulty.rows; r++) {
-    for (let c = 0; c < difficulty.cols; c++) {
-      if (newBoard[r][c].value === CellValue.MINE) continue;
+// Recomputes every non-mine cell's neighbour count (mutates and returns the given board)
+export const calculateNumbers = (board: CellData[][], topology?: TopologyId): CellData[][] => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const { forEachNeighbor } = getTopology(topology);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (board[r][c].value === CellValue.MINE) continue;
       
       let count = 0;
-      for (let i = -1; i <= 1; i++) {
-        for (let j = -1; j <= 1; j++) {
-          const nr = r + i;
-          const nc = c + j;
-          if (nr >= 0 && nr < difficulty.rows && nc >= 0 && nc < difficulty.cols) {
-            if (newBoard[nr][nc].value === CellValue.MINE) count++;
-          }
-        }
-      }
-      newBoard[r][c].value = count;
+      forEachNeighbor(rows, cols, r, c, (nr, nc) => {
+        if (board[nr][nc].value === CellValue.MINE) count++;
+      });
+      board[r][c].value = count;
     }
   }
 
-  return newBoard;
+  return board;
 };
 
+// Cells a reveal may open: plain hidden cells and question marks (flags protect a cell)
+const isRevealable = (cell: CellData) => cell.state === CellState.HIDDEN || cell.state === CellState.QUESTION;
+
 // BFS to reveal empty areas
-export const revealCell = (board: CellData[][], row: number, col: number): { board: CellData[][], hitMine: boolean } => {
+export const revealCell = (
+  board: CellData[][],
+  row: number,
+  col: number,
+  topology?: TopologyId
+): { board: CellData[][], hitMine: boolean } => {
+  // Copy-on-write: only rows with newly revealed cells are copied, and earlier boards
+  // stay untouched (undo snapshots rely on this)
   const newBoard = [...board];
+  const copiedRows = new Set<number>();
+  const reveal = (r: number, c: number, extra?: Partial<CellData>) => {
+    if (!copiedRows.has(r)) {
+      newBoard[r] = [...newBoard[r]];
+      copiedRows.add(r);
+    }
+    newBoard[r][c] = { ...newBoard[r][c], state: CellState.REVEALED, ...extra };
+  };
   const cell = newBoard[row][col];
 
-  if (cell.state !== CellState.HIDDEN) {
+  if (!isRevealable(cell)) {
     return { board: newBoard, hitMine: false };
   }
 
   if (cell.value === CellValue.MINE) {
-    newBoard[row][col] = { ...cell, state: CellState.REVEALED, isExploded: true };
+    reveal(row, col, { isExploded: true });
     return { board: newBoard, hitMine: true };
   }
 
-  const queue = [[row, col]];
-  
-  // Mark initial as revealed
-  newBoard[row][col] = { ...cell, state: CellState.REVEALED };
+  reveal(row, col);
+  if (cell.value !== 0) return { board: newBoard, hitMine: false };
 
+  // Cells are revealed as they are queued, so the state doubles as the visited mark
+  const rows = newBoard.length;
+  const cols = newBoard[0].length;
+  const { forEachNeighbor } = getTopology(topology);
+  const queue: [number, number][] = [[row, col]];
   let head = 0;
-  while(head < queue.length){
+  while (head < queue.length) {
     const [currR, currC] = queue[head++];
-    const currentCell = newBoard[currR][currC];
-
-    // If it's empty (0), check neighbors
-    if (currentCell.value === 0) {
-      for (let i = -1; i <= 1; i++) {
-        for (let j = -1; j <= 1; j++) {
-          const nr = currR + i;
-          const nc = currC + j;
-          
-          if (nr >= 0 && nr < newBoard.length && nc >= 0 && nc < newBoard[0].length) {
-            const neighbor = newBoard[nr][nc];
-            if (neighbor.state === CellState.HIDDEN) {
-              // Reveal logic
-              newBoard[nr][nc] = { ...neighbor, state: CellState.REVEALED };
-              // If neighbor is also empty, add to queue
-              if (neighbor.value === 0) {
-                 // Check if already in queue to prevent dupes (simple optimization)
-                 // Ideally use a visited Set, but changing state acts as visited here
-                 queue.push([nr, nc]);
-              }
-            }
-          }
-        }
-      }
-    }
+    forEachNeighbor(rows, cols, currR, currC, (nr, nc) => {
+      const neighbor = newBoard[nr][nc];
+      if (!isRevealable(neighbor)) return;
+      reveal(nr, nc); // A zero's neighbours are never mines
+      if (neighbor.value === 0) queue.push([nr, nc]);
+    });
   }
 
   return { board: newBoard, hitMine: false };
 };
 
+// Chording: clicking a number whose flag count matches it reveals all other neighbours.
+// A wrongly placed flag makes the chord open a mine, which loses the game as usual.
+export const chordCell = (
+  board: CellData[][],
+  row: number,
+  col: number,
+  topology?: TopologyId
+): { board: CellData[][], hitMine: boolean, changed: boolean } => {
+  const cell = board[row][col];
+  const rows = board.length;
+  const cols = board[0].length;
+  if (cell.state !== CellState.REVEALED || cell.value <= 0) {
+    return { board, hitMine: false, changed: false };
+  }
+
+  const neighbors = getNeighbors(rows, cols, row, col, topology);
+  const flags = neighbors.filter(([nr, nc]) => board[nr][nc].state === CellState.FLAGGED).length;
+  const targets = neighbors.filter(([nr, nc]) => isRevealable(board[nr][nc]));
+  if (flags !== cell.value || targets.length === 0) {
+    return { board, hitMine: false, changed: false };
+  }
+
+  let newBoard = board;
+  let hitMine = false;
+  for (const [nr, nc] of targets) {
+    const result = revealCell(newBoard, nr, nc, topology);
+    newBoard = result.board;
+    hitMine = hitMine || result.hitMine;
+  }
+  return { board: newBoard, hitMine, changed: true };
+};
+
+// Right-click / long-press marking: HIDDEN → FLAGGED → (QUESTION →) HIDDEN.
+// flagDelta is the change in placed flags, for the mine counter.
+export const cycleCellMark = (
+  board: CellData[][],
+  row: number,
+  col: number,
+  useQuestionMarks: boolean
+): { board: CellData[][], flagDelta: number } => {
+  const cell = board[row][col];
+  let next: CellState;
+  let flagDelta = 0;
+
+  if (cell.state === CellState.HIDDEN) {
+    next = CellState.FLAGGED;
+    flagDelta = 1;
+  } else if (cell.state === CellState.FLAGGED) {
+    next = useQuestionMarks ? CellState.QUESTION : CellState.HIDDEN;
+    flagDelta = -1;
+  } else if (cell.state === CellState.QUESTION) {
+    next = CellState.HIDDEN;
+  } else {
+    return { board, flagDelta: 0 };
+  }
+
+  const newBoard = [...board];
+  newBoard[row] = [...board[row]];
+  newBoard[row][col] = { ...cell, state: next };
+  return { board: newBoard, flagDelta };
+};
+
+// Topology-independent: the game is won once only the mines remain unrevealed
 export const checkWin = (board: CellData[][], mines: number): boolean => {
-  let hiddenOrFlaggedCount = 0;
+  let unrevealedCount = 0;
   for (const row of board) {
     for (const cell of row) {
-      if (cell.state === CellState.HIDDEN || cell.state === CellState.FLAGGED) {
-        hiddenOrFlaggedCount++;
+      if (cell.state !== CellState.REVEALED) {
+        unrevealedCount++;
       }
     }
   }
-  return hiddenOrFlaggedCount === mines;
+  return unrevealedCount === mines;
 };
 
 export const revealAllMines = (board: CellData[][]): CellData[][] => {
@@ -0,0 +1,4 @@
+// Narrowing for parsed JSON and other untrusted data, which is typed unknown until checked
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,91 @@
+import { CellData, CellState, CellValue, TopologyId } from './types';
+import { getNeighbors } from './gameEngine';
+
+// Competitive efficiency metrics.
+// 3BV ("Bechtel's Board Benchmark Value") is the minimum number of left clicks needed to
+// clear a board: one per opening (connected area of zeros, revealed as a whole) plus one
+// per numbered cell that no opening uncovers.
+
+export interface ClickCounts {
+  left: number;
+  right: number;
+  chord: number;
+  effective: number; // Clicks that changed the board
+}
+
+export interface GameMetrics {
+  bbbv: number; // 3BV of the whole board
+  solvedBbbv: number; // 3BV units actually cleared (equals bbbv on a win)
+  timeMs: number;
+  bbbvPerSecond: number;
+  clicks: ClickCounts;
+  totalClicks: number;
+  ioe: number; // Index of efficiency: solved 3BV per click
+  correctness: number; // Share of clicks that changed the board
+}
+
+export const emptyClickCounts = (): ClickCounts => ({ left: 0, right: 0, chord: 0, effective: 0 });
+
+// Total 3BV and how many of its units are already revealed on this board
+export const calculate3BV = (board: CellData[][], topology?: TopologyId): { total: number; solved: number } => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const coveredByOpening: boolean[][] = board.map(row => row.map(() => false));
+  let total = 0;
+  let solved = 0;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (board[r][c].value !== 0 || coveredByOpening[r][c]) continue;
+
+      // Flood the opening: its zeros plus the numbered border they uncover
+      total++;
+      let revealed = false;
+      const queue: [number, number][] = [[r, c]];
+      coveredByOpening[r][c] = true;
+      for (let head = 0; head < queue.length; head++) {
+        const [cr, cc] = queue[head];
+        if (board[cr][cc].value !== 0) continue;
+        if (board[cr][cc].state === CellState.REVEALED) revealed = true;
+        for (const [nr, nc] of getNeighbors(rows, cols, cr, cc, topology)) {
+          if (coveredByOpening[nr][nc]) continue;
+          coveredByOpening[nr][nc] = true;
+          queue.push([nr, nc]);
+        }
+      }
+      if (revealed) solved++;
+    }
+  }
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = board[r][c];
+      if (cell.value === CellValue.MINE || coveredByOpening[r][c]) continue;
+      total++;
+      if (cell.state === CellState.REVEALED) solved++;
+    }
+  }
+
+  return { total, solved };
+};
+
+export const computeGameMetrics = (
+  board: CellData[][],
+  clicks: ClickCounts,
+  timeMs: number,
+  topology?: TopologyId
+): GameMetrics => {
+  const { total, solved } = calculate3BV(board, topology);
+  const totalClicks = clicks.left + clicks.right + clicks.chord;
+  const seconds = timeMs / 1000;
+  return {
+    bbbv: total,
+    solvedBbbv: solved,
+    timeMs,
+    bbbvPerSecond: seconds > 0 ? solved / seconds : 0,
+    clicks,
+    totalClicks,
+    ioe: totalClicks > 0 ? solved / totalClicks : 0,
+    correctness: totalClicks > 0 ? clicks.effective / totalClicks : 0,
+  };
+};
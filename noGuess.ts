@@ -0,0 +1,152 @@
+import { CellData, CellState, CellValue, Difficulty, TopologyId } from './types';
+import { calculateNumbers, checkWin, getNeighbors, placeMines, revealCell } from './gameEngine';
+import { solveBoard } from './solver';
+import { Rng } from './random';
+
+// "无猜" (no-guess) board generation.
+// A layout is accepted only if the logic solver can clear it from the first click without
+// ever guessing. Stuck layouts are first repaired by moving a mine away from the unsolved
+// frontier; when that doesn't help a fresh layout is drawn, until the budget runs out.
+// Two budgets apply: wall-clock time for unseeded runs, and solver work, counted in cells
+// examined, for every run. The work budget is what ends seeded runs, so they stay reproducible.
+
+export interface NoGuessOptions {
+  timeBudgetMs?: number;
+  maxAttempts?: number; // Fresh layouts to try
+  maxRepairs?: number; // Mine relocations per layout before giving up on it
+  maxWork?: number; // Cells examined by the solver across all attempts
+  // Seeded generation ignores the time budget, so the same seed always yields the same layout
+  rng?: Rng;
+}
+
+export interface NoGuessResult {
+  board: CellData[][];
+  solvable: boolean; // False when the budget ran out and a plain random layout is returned
+  attempts: number;
+  elapsedMs: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<NoGuessOptions, 'rng'>> = {
+  timeBudgetMs: 1500,
+  maxAttempts: 200,
+  maxRepairs: 30,
+  maxWork: 750_000, // Two to three seconds at most, depending on the board
+};
+
+// Plays the board with logic only. Returns null when it is fully cleared,
+// otherwise the position (board state) where the solver got stuck.
+// Each solver pass is paid for first; once spend refuses, the position so far counts as stuck.
+const solveFromStart = (
+  layout: CellData[][],
+  mines: number,
+  startRow: number,
+  startCol: number,
+  topology?: TopologyId,
+  spend: (cells: number) => boolean = () => true
+): CellData[][] | null => {
+  const cells = layout.length * layout[0].length;
+  let board = layout.map(row => row.map(cell => ({ ...cell, state: CellState.HIDDEN })));
+  board = revealCell(board, startRow, startCol, topology).board;
+
+  while (!checkWin(board, mines)) {
+    if (!spend(cells)) return board;
+    const { safe } = solveBoard(board, mines, topology);
+    const unrevealed = safe.filter(d => board[d.row][d.col].state === CellState.HIDDEN);
+    if (unrevealed.length === 0) return board;
+    for (const d of unrevealed) {
+      board = revealCell(board, d.row, d.col, topology).board;
+    }
+  }
+  return null;
+};
+
+export const isNoGuessSolvable = (
+  layout: CellData[][],
+  mines: number,
+  startRow: number,
+  startCol: number,
+  topology?: TopologyId
+): boolean => solveFromStart(layout, mines, startRow, startCol, topology) === null;
+
+// Moves one mine that borders the stuck frontier to a random cell far from the revealed area
+const repairLayout = (
+  layout: CellData[][],
+  stuck: CellData[][],
+  safeRow: number,
+  safeCol: number,
+  rng: Rng,
+  topology?: TopologyId
+): boolean => {
+  const rows = layout.length;
+  const cols = layout[0].length;
+  const safeZone = new Set([safeRow * cols + safeCol]);
+  for (const [r, c] of getNeighbors(rows, cols, safeRow, safeCol, topology)) safeZone.add(r * cols + c);
+  const inSafeZone = (r: number, c: number) => safeZone.has(r * cols + c);
+  const touchesRevealed = (r: number, c: number) =>
+    getNeighbors(rows, cols, r, c, topology).some(([nr, nc]) => stuck[nr][nc].state === CellState.REVEALED);
+
+  const sources: [number, number][] = [];
+  const targets: [number, number][] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (stuck[r][c].state === CellState.REVEALED || inSafeZone(r, c)) continue;
+      const isMine = layout[r][c].value === CellValue.MINE;
+      const onFrontier = touchesRevealed(r, c);
+      if (isMine && onFrontier) sources.push([r, c]);
+      if (!isMine && !onFrontier) targets.push([r, c]);
+    }
+  }
+  if (sources.length === 0 || targets.length === 0) return false;
+
+  const [sr, sc] = sources[Math.floor(rng() * sources.length)];
+  const [tr, tc] = targets[Math.floor(rng() * targets.length)];
+  layout[sr][sc].value = CellValue.EMPTY;
+  layout[tr][tc].value = CellValue.MINE;
+  calculateNumbers(layout, topology);
+  return true;
+};
+
+export const generateNoGuessBoard = (
+  board: CellData[][],
+  difficulty: Difficulty,
+  safeRow: number,
+  safeCol: number,
+  options: NoGuessOptions = {}
+): NoGuessResult => {
+  const { timeBudgetMs, maxAttempts, maxRepairs, maxWork } = { ...DEFAULT_OPTIONS, ...options };
+  const rng = options.rng ?? Math.random;
+  const startedAt = Date.now();
+  const elapsed = () => Date.now() - startedAt;
+  let work = 0;
+  // A pass that does not fit ends the run, like running out of time
+  const spend = (cells: number) => {
+    work = Math.min(work + cells, maxWork + 1);
+    return work <= maxWork;
+  };
+  const withinBudget = () => work <= maxWork && (options.rng !== undefined || elapsed() < timeBudgetMs);
+
+  let attempts = 0;
+  let fallback: CellData[][] | null = null;
+
+  while (attempts < maxAttempts && withinBudget()) {
+    attempts++;
+    const layout = placeMines(board, difficulty, safeRow, safeCol, rng);
+    if (!fallback) fallback = layout.map(row => row.map(cell => ({ ...cell })));
+
+    for (let repairs = 0; repairs <= maxRepairs && withinBudget(); repairs++) {
+      const stuck = solveFromStart(layout, difficulty.mines, safeRow, safeCol, difficulty.topology, spend);
+      if (!stuck) {
+        return { board: layout, solvable: true, attempts, elapsedMs: elapsed() };
+      }
+      if (!repairLayout(layout, stuck, safeRow, safeCol, rng, difficulty.topology)) break;
+    }
+  }
+
+  // Budget exhausted: hand back an ordinary random layout so the game can still start
+  return {
+    board: fallback ?? placeMines(board, difficulty, safeRow, safeCol, rng),
+    solvable: false,
+    attempts,
+    elapsedMs: elapsed(),
+  };
+};
@@ -0,0 +1,132 @@
+import { CellData, CellRef, CellState, TopologyId } from './types';
+import { buildConstraints, enumerateComponent, isRevealed, splitComponents } from './constraints';
+import { solveBoard } from './solver';
+
+// Exact mine probabilities for every unrevealed cell.
+// Each frontier component is enumerated separately; components are then combined with
+// the unconstrained interior cells, weighting every global configuration by the number
+// of ways the leftover mines can be spread over the interior: C(interior, leftover).
+
+export interface ProbabilityMap {
+  probabilities: (number | null)[][]; // Mine probability per cell, null for revealed cells
+  exact: boolean; // False when part of the frontier was too large to enumerate
+  safest: CellRef | null; // Lowest-risk unrevealed, unflagged cell
+}
+
+const PRECISION = 1_000_000_000n;
+
+const ratio = (num: bigint, den: bigint): number => Number((num * PRECISION) / den) / Number(PRECISION);
+
+// Polynomial product: result[s] = number of ways the given components hold s mines in total
+const convolve = (polys: bigint[][]): bigint[] => {
+  let result = [1n];
+  for (const poly of polys) {
+    const next = new Array<bigint>(result.length + poly.length - 1).fill(0n);
+    result.forEach((a, s) => {
+      if (a === 0n) return;
+      poly.forEach((b, k) => {
+        if (b !== 0n) next[s + k] += a * b;
+      });
+    });
+    result = next;
+  }
+  return result;
+};
+
+// C(n, t) for t = 0..max
+const binomialRow = (n: number, max: number): bigint[] => {
+  const row: bigint[] = [1n];
+  for (let t = 0; t < max; t++) {
+    row.push(t < n ? (row[t] * BigInt(n - t)) / BigInt(t + 1) : 0n);
+  }
+  return row;
+};
+
+export const computeProbabilities = (
+  board: CellData[][],
+  totalMines: number,
+  topology?: TopologyId
+): ProbabilityMap => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const probabilities: (number | null)[][] = board.map(row => row.map(() => null));
+
+  // Certain cells first: it settles them and shrinks the components left to enumerate
+  const solved = solveBoard(board, totalMines, topology);
+  const known = new Map<number, { isMine: boolean }>();
+  for (const d of [...solved.safe, ...solved.mines]) {
+    known.set(d.row * cols + d.col, d);
+    probabilities[d.row][d.col] = d.isMine ? 1 : 0;
+  }
+
+  const components = splitComponents(buildConstraints(board, known, topology))
+    .map(g => enumerateComponent(g.cells, g.constraints));
+  // Components that could not be enumerated are weighted as if they were interior cells
+  const enumerated = components.filter(comp => comp.exact);
+  let exact = enumerated.length === components.length;
+
+  let unknownCount = 0;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!isRevealed(board[r][c]) && !known.has(r * cols + c)) unknownCount++;
+    }
+  }
+  const remaining = totalMines - solved.mines.length;
+  const interiorCount = unknownCount - enumerated.reduce((sum, comp) => sum + comp.cells.length, 0);
+
+  const binomials = binomialRow(interiorCount, Math.max(remaining, 0));
+  const interiorWays = (leftover: number): bigint =>
+    leftover >= 0 && leftover <= interiorCount ? binomials[leftover] : 0n;
+
+  const polys = enumerated.map(comp => comp.solutionCounts.map(count => BigInt(count)));
+  const all = convolve(polys);
+  const totalWeight = all.reduce((sum, ways, s) => sum + ways * interiorWays(remaining - s), 0n);
+
+  let interiorProbability = unknownCount > 0 ? Math.max(remaining, 0) / unknownCount : 0;
+
+  if (totalWeight === 0n) {
+    // Inconsistent position (e.g. wrong mine total): fall back to the plain density
+    exact = false;
+  } else {
+    enumerated.forEach((comp, i) => {
+      const others = convolve(polys.filter((_, j) => j !== i));
+      // Weight of all completions once this component holds k mines
+      const completions = comp.solutionCounts.map((_, k) =>
+        others.reduce((sum, ways, s) => sum + ways * interiorWays(remaining - k - s), 0n)
+      );
+      comp.cells.forEach((cell, j) => {
+        const mineWeight = comp.mineCounts.reduce(
+          (sum, perCell, k) => sum + BigInt(perCell[j]) * completions[k],
+          0n
+        );
+        probabilities[Math.floor(cell / cols)][cell % cols] = ratio(mineWeight, totalWeight);
+      });
+    });
+
+    if (interiorCount > 0) {
+      // Every interior cell is equally likely to hold one of the leftover mines
+      const interiorMines = all.reduce(
+        (sum, ways, s) => sum + ways * interiorWays(remaining - s) * BigInt(Math.max(remaining - s, 0)),
+        0n
+      );
+      interiorProbability = ratio(interiorMines, totalWeight * BigInt(interiorCount));
+    }
+  }
+
+  let safest: CellRef | null = null;
+  let safestRisk = Infinity;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = board[r][c];
+      if (isRevealed(cell)) continue;
+      if (probabilities[r][c] === null) probabilities[r][c] = interiorProbability;
+      if (cell.state === CellState.FLAGGED) continue;
+      if (probabilities[r][c]! < safestRisk) {
+        safestRisk = probabilities[r][c]!;
+        safest = { row: r, col: c };
+      }
+    }
+  }
+
+  return { probabilities, exact, safest };
+};
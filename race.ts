@@ -0,0 +1,68 @@
+import { CellData, CellState, CellValue, Difficulty } from './types';
+
+// Head-to-head races: the message protocol between the browser and server/raceServer.ts.
+// The server owns the rooms and the clock; every player plays the same game code
+// (same seed, same first click) and streams a compact picture of their board.
+
+export const RACE_PORT = 8787;
+
+// Every progress message sends the room's masks to every player, a character per cell each,
+// and opponents are drawn a div per cell; races stay on boards where both remain small
+export const MAX_RACE_CELLS = 2500;
+
+export type RacePlayerStatus = 'waiting' | 'playing' | 'won' | 'lost' | 'left';
+export type RaceRoomStatus = 'lobby' | 'countdown' | 'racing' | 'finished';
+
+// One character per cell, row by row (see boardMask)
+export const MASK_HIDDEN = '0';
+export const MASK_REVEALED = '1';
+export const MASK_FLAGGED = '2';
+
+export interface RacePlayer {
+  id: string;
+  name: string;
+  status: RacePlayerStatus;
+  mask: string;
+  revealed: number; // Safe cells opened so far
+  finishMs: number | null; // Server time from the start signal to winning or exploding
+}
+
+export interface RaceRoom {
+  code: string;
+  hostId: string;
+  difficulty: Difficulty;
+  noGuess: boolean;
+  status: RaceRoomStatus;
+  players: RacePlayer[];
+}
+
+export type RaceClientMessage =
+  | { type: 'create'; name: string; difficulty: Difficulty; noGuess: boolean }
+  | { type: 'join'; room: string; name: string }
+  | { type: 'start' }
+  | { type: 'progress'; mask: string; status: 'playing' | 'won' | 'lost' }
+  | { type: 'forfeit' } // The player dealt another game over the race board; counts as a loss
+  | { type: 'leave' };
+
+export type RaceServerMessage =
+  | { type: 'welcome'; playerId: string }
+  | { type: 'room'; room: RaceRoom }
+  | { type: 'start'; gameCode: string; countdownMs: number }
+  | { type: 'error'; message: string };
+
+export const boardMask = (board: CellData[][]): string =>
+  board.flat().map(cell => {
+    if (cell.state === CellState.FLAGGED) return MASK_FLAGGED;
+    // Mines shown after a loss (even the one that exploded) stay hidden:
+    // the other players are still racing on the same layout
+    return cell.state === CellState.REVEALED && cell.value !== CellValue.MINE ? MASK_REVEALED : MASK_HIDDEN;
+  }).join('');
+
+// Finishers by time, then those who exploded by how far they got, then those who left
+export const rankPlayers = (players: RacePlayer[]): RacePlayer[] => {
+  const order: Record<RacePlayerStatus, number> = { won: 0, playing: 1, waiting: 1, lost: 2, left: 3 };
+  return [...players].sort((a, b) =>
+    order[a.status] - order[b.status] ||
+    (a.status === 'won' ? (a.finishMs ?? 0) - (b.finishMs ?? 0) : b.revealed - a.revealed)
+  );
+};
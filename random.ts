@@ -0,0 +1,27 @@
+// Seedable PRNG so that a board can be regenerated from a single number
+
+export type Rng = () => number; // Uniform in [0, 1), like Math.random
+
+// mulberry32: tiny, fast and good enough for shuffling mines
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// FNV-1a: the same text always gives the same seed (date-based boards)
+export const seedFromString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,189 @@
+import { CellData, CellState, Difficulty, GameStatus, TopologyId } from './types';
+import { boardFromMines, checkWin, chordCell, revealAllMines, revealCell, validateDifficulty } from './gameEngine';
+import { isTopologyId } from './topology';
+import { isRecord } from './json';
+
+// Game recordings: the final mine layout plus every player action, timed from the first click.
+// Replays are exported as versioned JSON so they stay loadable as the format evolves.
+
+export const REPLAY_VERSION = 1;
+
+// 'unflag' clears any mark (flag or question mark); 'question' sets a question mark
+export type ReplayActionType = 'reveal' | 'flag' | 'unflag' | 'question' | 'chord';
+
+export interface ReplayAction {
+  t: number; // Milliseconds since the first click
+  type: ReplayActionType;
+  row: number;
+  col: number;
+}
+
+export interface Replay {
+  version: typeof REPLAY_VERSION;
+  difficulty: Difficulty;
+  gameCode: string | null;
+  mines: [number, number][];
+  actions: ReplayAction[];
+  result: GameStatus.WON | GameStatus.LOST;
+  durationMs: number;
+  recordedAt: string; // ISO timestamp
+}
+
+export interface ReplayFrame {
+  board: CellData[][];
+  status: GameStatus;
+  actionsApplied: number;
+}
+
+const ACTION_TYPES: ReplayActionType[] = ['reveal', 'flag', 'unflag', 'question', 'chord'];
+
+const MARK_STATES: Record<'flag' | 'unflag' | 'question', CellState> = {
+  flag: CellState.FLAGGED,
+  unflag: CellState.HIDDEN,
+  question: CellState.QUESTION,
+};
+
+export const createReplay = (
+  difficulty: Difficulty,
+  gameCode: string | null,
+  mines: [number, number][],
+  actions: ReplayAction[],
+  result: GameStatus.WON | GameStatus.LOST
+): Replay => ({
+  version: REPLAY_VERSION,
+  difficulty,
+  gameCode,
+  mines,
+  actions: [...actions],
+  result,
+  durationMs: actions.length > 0 ? actions[actions.length - 1].t : 0,
+  recordedAt: new Date().toISOString(),
+});
+
+// One recorded action on a board; hitMine when it opened a mine
+export const applyReplayAction = (
+  board: CellData[][],
+  action: ReplayAction,
+  topology?: TopologyId
+): { board: CellData[][]; hitMine: boolean } => {
+  const { row, col } = action;
+  const cell = board[row][col];
+  switch (action.type) {
+    case 'reveal':
+      return revealCell(board, row, col, topology);
+    case 'chord':
+      return chordCell(board, row, col, topology);
+    case 'flag':
+    case 'unflag':
+    case 'question': {
+      const newBoard = [...board];
+      newBoard[row] = [...board[row]];
+      newBoard[row][col] = { ...cell, state: MARK_STATES[action.type] };
+      return { board: newBoard, hitMine: false };
+    }
+  }
+};
+
+// Board position after every action recorded up to `timeMs`
+export const replayFrameAt = (replay: Replay, timeMs: number): ReplayFrame => {
+  const { rows, cols, mines, topology } = replay.difficulty;
+  let board = boardFromMines(rows, cols, replay.mines, topology);
+  let status = GameStatus.IDLE;
+  let actionsApplied = 0;
+
+  for (const action of replay.actions) {
+    if (action.t > timeMs) break;
+    const result = applyReplayAction(board, action, topology);
+    board = result.board;
+    actionsApplied++;
+    status = GameStatus.PLAYING;
+    if (result.hitMine) {
+      return { board: revealAllMines(board), status: GameStatus.LOST, actionsApplied };
+    }
+    if (checkWin(board, mines)) {
+      return { board, status: GameStatus.WON, actionsApplied };
+    }
+  }
+  return { board, status, actionsApplied };
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay, null, 2);
+
+const isInt = (n: unknown): n is number => Number.isInteger(n);
+
+// A recorded action on a rows x cols board, as read back from a file or storage
+export const isReplayAction = (value: unknown, rows: number, cols: number): value is ReplayAction =>
+  isRecord(value) && isInt(value.t) && ACTION_TYPES.some(type => type === value.type) &&
+  isInt(value.row) && isInt(value.col) && value.row >= 0 && value.row < rows && value.col >= 0 && value.col < cols;
+
+// Parses and validates an exported replay; throws with a readable message when it is unusable
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('回放文件不是有效的 JSON。');
+  }
+
+  if (!isRecord(data)) throw new Error('回放文件格式不正确。');
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`不支持的回放版本: ${String(data.version)}（当前支持版本 ${REPLAY_VERSION}）。`);
+  }
+
+  const { difficulty: rawDifficulty, mines, actions } = data;
+  if (!isRecord(rawDifficulty) || !isInt(rawDifficulty.rows) || !isInt(rawDifficulty.cols) || !isInt(rawDifficulty.mines)) {
+    throw new Error('回放中的难度信息不完整。');
+  }
+  const { topology } = rawDifficulty;
+  if (topology !== undefined && !isTopologyId(topology)) {
+    throw new Error(`不支持的棋盘类型: ${String(topology)}。`);
+  }
+  const difficulty: Difficulty = {
+    name: typeof rawDifficulty.name === 'string' ? rawDifficulty.name : '自定义',
+    rows: rawDifficulty.rows,
+    cols: rawDifficulty.cols,
+    mines: rawDifficulty.mines,
+    ...(isTopologyId(topology) ? { topology } : {}),
+  };
+  // The same limits as a new game, so a hand-edited size cannot allocate a huge board
+  const error = validateDifficulty(difficulty);
+  if (error) throw new Error(`回放中的难度无效：${error}`);
+
+  const inBounds = (r: unknown, c: unknown) =>
+    isInt(r) && isInt(c) && r >= 0 && r < difficulty.rows && c >= 0 && c < difficulty.cols;
+  const isCell = (m: unknown): m is [number, number] => Array.isArray(m) && m.length === 2 && inBounds(m[0], m[1]);
+
+  if (!Array.isArray(mines) || mines.length !== difficulty.mines || !mines.every(isCell)) {
+    throw new Error('回放中的地雷布局与难度不符。');
+  }
+  if (new Set(mines.map(([r, c]) => r * difficulty.cols + c)).size !== mines.length) {
+    throw new Error('回放中的地雷位置有重复。');
+  }
+  if (!Array.isArray(actions) || !actions.every(a => isReplayAction(a, difficulty.rows, difficulty.cols))) {
+    throw new Error('回放中的操作记录已损坏。');
+  }
+  if (data.result !== GameStatus.WON && data.result !== GameStatus.LOST) {
+    throw new Error('回放中缺少对局结果。');
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    difficulty,
+    gameCode: typeof data.gameCode === 'string' ? data.gameCode : null,
+    mines: mines.map(([r, c]) => [r, c]),
+    actions: actions.map(({ t, type, row, col }) => ({ t, type, row, col })),
+    result: data.result,
+    durationMs: isInt(data.durationMs) ? data.durationMs : (actions.length > 0 ? actions[actions.length - 1].t : 0),
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : new Date().toISOString(),
+  };
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `minesweeper-replay-${replay.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
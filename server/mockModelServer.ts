@@ -0,0 +1,151 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { fail, parseFlags } from '../cli/args';
+import { isRecord } from '../json';
+
+// Stand-in for a local model server, speaking just enough of the OpenAI chat-completions API
+// (plain and streamed) to try the hints, the game analysis and the coach without any model:
+//   npm run mock-model
+// then pick "OpenAI 兼容接口" with the endpoint http://localhost:11500/v1.
+// Answers are canned: hints point at the first hidden cell, text answers name it.
+
+const HELP = `用法: npm run mock-model -- [--port <n>] [--host <地址>] [--delay <毫秒>]
+  --port <n>        监听端口（默认 11500）
+  --host <地址>     监听地址（默认 127.0.0.1）
+  --delay <毫秒>    流式回答每一小段之间的间隔（默认 40）`;
+
+const DEFAULT_PORT = 11500;
+const DEFAULT_CHUNK_DELAY_MS = 40;
+const CHUNK_SIZE = 3;
+const MODEL_NAME = 'mock';
+
+interface Message {
+  role: string;
+  content: string;
+}
+
+const isMessage = (value: unknown): value is Message =>
+  isRecord(value) && typeof value.role === 'string' && typeof value.content === 'string';
+
+// The board matrix of the prompts: rows of space-separated H, F and 0-8
+const findFirstHidden = (messages: Message[]): { row: number; col: number } | null => {
+  const system = messages.map(m => m.content).join('\n');
+  const rows = system.split('\n').map(line => line.trim()).filter(line => /^[HF0-8]( [HF0-8])*$/.test(line));
+  for (let row = 0; row < rows.length; row++) {
+    const col = rows[row].split(' ').indexOf('H');
+    if (col >= 0) return { row, col };
+  }
+  return null;
+};
+
+const answerFor = (messages: Message[], wantsJson: boolean): string => {
+  const target = findFirstHidden(messages);
+  if (wantsJson) {
+    return JSON.stringify({
+      row: target?.row ?? 0,
+      col: target?.col ?? 0,
+      action: 'reveal',
+      reasoning: '（替身模型）选择了第一个隐藏的格子，仅用于测试。',
+    });
+  }
+  const question = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+  const cell = target ? `(行 ${target.row + 1}, 列 ${target.col + 1})` : null;
+  return `（替身模型）收到：“${question.trim().slice(0, 60)}”。` +
+    (cell ? `可以先看看 ${cell} 周围的数字。` : '') +
+    '这是本地替身服务器的固定回答，仅用于测试。';
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The browser calls from the Vite dev server's origin
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const sendJson = (res: ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+};
+
+const handleCompletion = async (req: IncomingMessage, res: ServerResponse, chunkDelayMs: number) => {
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { error: { message: 'Invalid JSON body' } });
+    return;
+  }
+  if (!isRecord(body)) {
+    sendJson(res, 400, { error: { message: 'Body must be a JSON object' } });
+    return;
+  }
+  const messages = Array.isArray(body.messages) ? body.messages.filter(isMessage) : [];
+  if (messages.length === 0) {
+    sendJson(res, 400, { error: { message: 'messages is required' } });
+    return;
+  }
+
+  const wantsJson = isRecord(body.response_format) && body.response_format.type === 'json_object';
+  const answer = answerFor(messages, wantsJson);
+  if (body.stream !== true) {
+    sendJson(res, 200, {
+      object: 'chat.completion',
+      model: MODEL_NAME,
+      choices: [{ index: 0, message: { role: 'assistant', content: answer }, finish_reason: 'stop' }],
+    });
+    return;
+  }
+
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache' });
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  const event = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  for (let i = 0; i < answer.length && !closed; i += CHUNK_SIZE) {
+    event({ object: 'chat.completion.chunk', model: MODEL_NAME, choices: [{ index: 0, delta: { content: answer.slice(i, i + CHUNK_SIZE) } }] });
+    await sleep(chunkDelayMs);
+  }
+  if (closed) return;
+  event({ object: 'chat.completion.chunk', model: MODEL_NAME, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] });
+  res.end('data: [DONE]\n\n');
+};
+
+const main = () => {
+  const { args } = parseFlags(process.argv.slice(2), HELP);
+  const port = Number(args.get('port') ?? DEFAULT_PORT);
+  if (!(Number.isInteger(port) && port > 0 && port < 65536)) fail('端口无效。');
+  const host = args.get('host') ?? '127.0.0.1';
+  const chunkDelayMs = Number(args.get('delay') ?? DEFAULT_CHUNK_DELAY_MS);
+  if (!(chunkDelayMs >= 0)) fail('间隔无效。');
+
+  const server = createServer((req, res) => {
+    const path = (req.url ?? '').split('?')[0].replace(/\/+$/, '');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+    } else if (req.method === 'GET' && path === '/v1/models') {
+      sendJson(res, 200, { object: 'list', data: [{ id: MODEL_NAME, object: 'model' }] });
+    } else if (req.method === 'POST' && path === '/v1/chat/completions') {
+      handleCompletion(req, res, chunkDelayMs).catch(error => {
+        console.error(error);
+        if (!res.headersSent) sendJson(res, 500, { error: { message: String(error) } });
+        else res.end();
+      });
+    } else {
+      sendJson(res, 404, { error: { message: `Unknown route ${req.method} ${path}` } });
+    }
+  });
+  server.on('listening', () => console.log(`替身模型服务器已启动: http://${host}:${port}/v1`));
+  server.on('error', error => fail(`替身模型服务器启动失败: ${error.message}`));
+  server.listen(port, host);
+};
+
+main();
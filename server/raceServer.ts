@@ -0,0 +1,310 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { Difficulty } from '../types';
+import { validateDifficulty } from '../gameEngine';
+import { encodeGameCode } from '../gameCode';
+import { randomSeed } from '../random';
+import { DEFAULT_TOPOLOGY, isTopologyId } from '../topology';
+import { isRecord } from '../json';
+import {
+  MASK_FLAGGED,
+  MASK_HIDDEN,
+  MASK_REVEALED,
+  MAX_RACE_CELLS,
+  RACE_PORT,
+  RaceClientMessage,
+  RacePlayer,
+  RaceRoom,
+  RaceServerMessage,
+} from '../race';
+import { fail, parseFlags } from '../cli/args';
+
+// Local race server: rooms, the shared game code and the clock. Nothing leaves this machine.
+//   npm run race-server                    (localhost only)
+//   npm run race-server -- --host 0.0.0.0  (let others on the network join)
+
+const HELP = `用法: npm run race-server -- [--port <n>] [--host <地址>]
+  --port <n>       监听端口（默认 ${RACE_PORT}）
+  --host <地址>    监听地址（默认 127.0.0.1，仅本机；0.0.0.0 允许局域网加入）`;
+
+const COUNTDOWN_MS = 3000;
+const MAX_PLAYERS = 8;
+const MAX_NAME_LENGTH = 16;
+// No 0/O or 1/I, so codes can be read out loud
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MASK_PATTERN = new RegExp(`^[${MASK_HIDDEN}${MASK_REVEALED}${MASK_FLAGGED}]*$`);
+
+interface Room extends Omit<RaceRoom, 'players'> {
+  players: Map<string, RacePlayer>;
+  sockets: Map<string, WebSocket>;
+  startedAt: number | null;
+}
+
+const rooms = new Map<string, Room>();
+
+const send = (socket: WebSocket, message: RaceServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: RaceServerMessage) => {
+  room.sockets.forEach(socket => send(socket, message));
+};
+
+const roomState = (room: Room): RaceRoom => ({
+  code: room.code,
+  hostId: room.hostId,
+  difficulty: room.difficulty,
+  noGuess: room.noGuess,
+  status: room.status,
+  players: [...room.players.values()],
+});
+
+const publish = (room: Room) => broadcast(room, { type: 'room', room: roomState(room) });
+
+const newRoomCode = (): string => {
+  let code: string;
+  do {
+    code = Array.from({ length: 4 }, () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const cleanName = (name: unknown): string =>
+  (typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '') || '玩家';
+
+const newPlayer = (id: string, name: string, difficulty: Difficulty): RacePlayer => ({
+  id,
+  name,
+  status: 'waiting',
+  mask: MASK_HIDDEN.repeat(difficulty.rows * difficulty.cols),
+  revealed: 0,
+  finishMs: null,
+});
+
+// The race is over once nobody still connected is playing
+const checkFinished = (room: Room) => {
+  if (room.status !== 'racing') return;
+  if ([...room.players.values()].some(p => p.status === 'playing')) return;
+  room.status = 'finished';
+};
+
+// Timed by the server from its own start signal, so every player is on the same clock
+const raceTime = (room: Room): number => Math.max(0, Date.now() - (room.startedAt ?? Date.now()));
+
+const startRace = (room: Room) => {
+  const { rows, cols, mines, topology } = room.difficulty;
+  const gameCode = encodeGameCode({
+    rows,
+    cols,
+    mines,
+    // Everyone's first click is the same cell, so everyone gets the same layout
+    firstRow: Math.floor(rows / 2),
+    firstCol: Math.floor(cols / 2),
+    seed: randomSeed(),
+    noGuess: room.noGuess,
+    topology: topology ?? DEFAULT_TOPOLOGY,
+  });
+
+  // Players who left are dropped; everyone else starts over
+  for (const [id, player] of room.players) {
+    if (!room.sockets.has(id)) room.players.delete(id);
+    else room.players.set(id, { ...newPlayer(id, player.name, room.difficulty), status: 'playing' });
+  }
+  room.status = 'countdown';
+  room.startedAt = Date.now() + COUNTDOWN_MS;
+  broadcast(room, { type: 'start', gameCode, countdownMs: COUNTDOWN_MS });
+  publish(room);
+
+  setTimeout(() => {
+    if (room.status !== 'countdown') return;
+    room.status = 'racing';
+    checkFinished(room);
+    publish(room);
+  }, COUNTDOWN_MS);
+};
+
+const leaveRoom = (room: Room, playerId: string) => {
+  room.sockets.delete(playerId);
+  const player = room.players.get(playerId);
+  if (!player) return;
+
+  if (room.status === 'lobby') room.players.delete(playerId);
+  else room.players.set(playerId, { ...player, status: player.status === 'playing' ? 'left' : player.status });
+
+  if (room.sockets.size === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+  if (room.hostId === playerId) room.hostId = room.sockets.keys().next().value!;
+  checkFinished(room);
+  publish(room);
+};
+
+// Checks a parsed message's shape; each handler below still checks what the values mean
+const parseClientMessage = (data: unknown): RaceClientMessage | null => {
+  if (!isRecord(data) || typeof data.type !== 'string') return null;
+  switch (data.type) {
+    case 'create': {
+      const { difficulty } = data;
+      if (!isRecord(difficulty)) return null;
+      const { name, rows, cols, mines, topology } = difficulty;
+      if (topology !== undefined && !isTopologyId(topology)) return null;
+      return {
+        type: 'create',
+        name: typeof data.name === 'string' ? data.name : '',
+        difficulty: {
+          name: typeof name === 'string' ? name : '自定义',
+          rows: Number(rows),
+          cols: Number(cols),
+          mines: Number(mines),
+          topology: isTopologyId(topology) ? topology : DEFAULT_TOPOLOGY,
+        },
+        noGuess: data.noGuess === true,
+      };
+    }
+    case 'join':
+      return {
+        type: 'join',
+        room: typeof data.room === 'string' ? data.room : '',
+        name: typeof data.name === 'string' ? data.name : '',
+      };
+    case 'progress':
+      if (typeof data.mask !== 'string') return null;
+      if (data.status !== 'playing' && data.status !== 'won' && data.status !== 'lost') return null;
+      return { type: 'progress', mask: data.mask, status: data.status };
+    case 'start':
+    case 'forfeit':
+    case 'leave':
+      return { type: data.type };
+    default:
+      return null;
+  }
+};
+
+const handleMessage = (socket: WebSocket, playerId: string, message: RaceClientMessage, current: Room | null): Room | null => {
+  const error = (text: string) => {
+    send(socket, { type: 'error', message: text });
+    return current;
+  };
+
+  switch (message.type) {
+    case 'create': {
+      if (current) return error('你已经在房间里了。');
+      const difficulty: Difficulty = { ...message.difficulty, name: message.difficulty.name.slice(0, MAX_NAME_LENGTH) };
+      const invalid = validateDifficulty(difficulty);
+      if (invalid) return error(invalid);
+      if (difficulty.rows * difficulty.cols > MAX_RACE_CELLS) return error(`对战棋盘最多 ${MAX_RACE_CELLS} 格。`);
+
+      const room: Room = {
+        code: newRoomCode(),
+        hostId: playerId,
+        difficulty,
+        noGuess: message.noGuess,
+        status: 'lobby',
+        players: new Map([[playerId, newPlayer(playerId, cleanName(message.name), difficulty)]]),
+        sockets: new Map([[playerId, socket]]),
+        startedAt: null,
+      };
+      rooms.set(room.code, room);
+      publish(room);
+      return room;
+    }
+
+    case 'join': {
+      if (current) return error('你已经在房间里了。');
+      const room = rooms.get(message.room.trim().toUpperCase());
+      if (!room) return error('房间不存在。');
+      if (room.status !== 'lobby' && room.status !== 'finished') return error('比赛正在进行，请等这一局结束。');
+      if (room.players.size >= MAX_PLAYERS) return error(`房间已满（最多 ${MAX_PLAYERS} 人）。`);
+
+      room.players.set(playerId, newPlayer(playerId, cleanName(message.name), room.difficulty));
+      room.sockets.set(playerId, socket);
+      publish(room);
+      return room;
+    }
+
+    case 'start': {
+      if (!current) return error('你不在房间里。');
+      if (current.hostId !== playerId) return error('只有房主可以开始比赛。');
+      if (current.status !== 'lobby' && current.status !== 'finished') return error('比赛已经开始了。');
+      startRace(current);
+      return current;
+    }
+
+    case 'progress': {
+      if (!current || (current.status !== 'countdown' && current.status !== 'racing')) return current;
+      const player = current.players.get(playerId);
+      if (!player || player.status !== 'playing') return current;
+      const { rows, cols } = current.difficulty;
+      if (message.mask.length !== rows * cols || !MASK_PATTERN.test(message.mask)) {
+        return current;
+      }
+
+      const revealed = [...message.mask].filter(ch => ch === MASK_REVEALED).length;
+      // A win has to show every safe cell open
+      if (message.status === 'won' && revealed !== rows * cols - current.difficulty.mines) return current;
+      const finished = message.status === 'won' || message.status === 'lost';
+      current.players.set(playerId, {
+        ...player,
+        mask: message.mask,
+        revealed,
+        status: finished ? message.status : 'playing',
+        finishMs: finished ? raceTime(current) : null,
+      });
+      checkFinished(current);
+      publish(current);
+      return current;
+    }
+
+    case 'forfeit': {
+      if (!current || (current.status !== 'countdown' && current.status !== 'racing')) return current;
+      const player = current.players.get(playerId);
+      if (!player || player.status !== 'playing') return current;
+      current.players.set(playerId, { ...player, status: 'lost', finishMs: raceTime(current) });
+      checkFinished(current);
+      publish(current);
+      return current;
+    }
+
+    case 'leave':
+      if (current) leaveRoom(current, playerId);
+      return null;
+  }
+};
+
+const main = () => {
+  const { args } = parseFlags(process.argv.slice(2), HELP);
+  const port = Number(args.get('port') ?? RACE_PORT);
+  if (!(Number.isInteger(port) && port > 0 && port < 65536)) fail('端口无效。');
+  const host = args.get('host') ?? '127.0.0.1';
+
+  const server = new WebSocketServer({ port, host });
+  server.on('connection', socket => {
+    const playerId = randomUUID();
+    let room: Room | null = null;
+    send(socket, { type: 'welcome', playerId });
+
+    socket.on('message', data => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(String(data));
+      } catch {
+        parsed = null;
+      }
+      const message = parseClientMessage(parsed);
+      if (!message) {
+        send(socket, { type: 'error', message: '无法识别的消息。' });
+        return;
+      }
+      room = handleMessage(socket, playerId, message, room);
+    });
+    socket.on('close', () => {
+      if (room) leaveRoom(room, playerId);
+      room = null;
+    });
+  });
+  server.on('listening', () => console.log(`对战服务器已启动: ws://${host}:${port}`));
+  server.on('error', error => fail(`对战服务器启动失败: ${error.message}`));
+};
+
+main();
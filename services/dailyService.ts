@@ -0,0 +1,106 @@
+import { DAILY_LEVELS, DailyLevel, dailyDate, shiftDate } from '../daily';
+import { DIFFICULTIES } from '../gameEngine';
+import { loadJSON, saveJSON } from './storage';
+
+// Local history of daily challenge attempts. Only the first attempt of a day counts: it is
+// stored as soon as it starts, so abandoning a bad start still uses up the day.
+
+export interface DailyRecord {
+  date: string; // YYYY-MM-DD
+  level: DailyLevel;
+  status: 'playing' | 'won' | 'lost'; // 'playing' left over from an earlier day means abandoned
+  timeMs: number | null;
+  bbbv: number | null;
+  usedHints: boolean;
+  usedUndo: boolean;
+}
+
+export interface DailyStreak {
+  current: number; // Days won in a row, up to today (or yesterday, before today's attempt)
+  best: number;
+}
+
+const STORAGE_KEY = 'daily';
+const MAX_RECORDS = 1500;
+const RECENT_DAYS = 7;
+
+export const loadDailyRecords = (): DailyRecord[] => {
+  const stored = loadJSON<unknown>(STORAGE_KEY, []);
+  return Array.isArray(stored)
+    ? (stored as DailyRecord[]).filter(r => r && typeof r.date === 'string' && DAILY_LEVELS.includes(r.level))
+    : [];
+};
+
+export const findDailyRecord = (records: DailyRecord[], date: string, level: DailyLevel): DailyRecord | null =>
+  records.find(r => r.date === date && r.level === level) ?? null;
+
+const saveRecord = (record: DailyRecord): DailyRecord[] => {
+  const records = [...loadDailyRecords().filter(r => r.date !== record.date || r.level !== record.level), record]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-MAX_RECORDS);
+  saveJSON(STORAGE_KEY, records);
+  return records;
+};
+
+// Claims the day's ranked attempt; returns null when it was already used
+export const startDailyAttempt = (date: string, level: DailyLevel): DailyRecord[] | null => {
+  if (findDailyRecord(loadDailyRecords(), date, level)) return null;
+  return saveRecord({ date, level, status: 'playing', timeMs: null, bbbv: null, usedHints: false, usedUndo: false });
+};
+
+export const finishDailyAttempt = (
+  date: string,
+  level: DailyLevel,
+  result: Omit<DailyRecord, 'date' | 'level' | 'status'> & { won: boolean }
+): DailyRecord[] => {
+  const { won, ...rest } = result;
+  return saveRecord({ date, level, status: won ? 'won' : 'lost', ...rest });
+};
+
+export const computeDailyStreak = (records: DailyRecord[], level: DailyLevel, today: string = dailyDate()): DailyStreak => {
+  const wonDays = new Set(records.filter(r => r.level === level && r.status === 'won').map(r => r.date));
+
+  let best = 0;
+  for (const date of wonDays) {
+    if (wonDays.has(shiftDate(date, -1))) continue; // Not the first day of a run
+    let length = 1;
+    while (wonDays.has(shiftDate(date, length))) length++;
+    best = Math.max(best, length);
+  }
+
+  // Today not played yet keeps yesterday's streak alive
+  let day = wonDays.has(today) ? today : shiftDate(today, -1);
+  let current = 0;
+  while (wonDays.has(day)) {
+    current++;
+    day = shiftDate(day, -1);
+  }
+  return { current, best };
+};
+
+// Copyable result card, e.g. for a team chat: outcome, time, 3BV, hint usage, streak and the last week
+export const dailyCard = (records: DailyRecord[], record: DailyRecord): string => {
+  const { name } = DIFFICULTIES[record.level];
+  const streak = computeDailyStreak(records, record.level, record.date);
+  const seconds = record.timeMs !== null ? record.timeMs / 1000 : null;
+
+  const lines = [`💣 扫雷每日挑战 ${record.date} · ${name}`];
+  if (record.status === 'won' && seconds !== null) {
+    const speed = record.bbbv !== null && seconds > 0 ? ` · ${(record.bbbv / seconds).toFixed(2)} 3BV/s` : '';
+    lines.push(`✅ 胜利 ${seconds.toFixed(2)}s · 3BV ${record.bbbv ?? '-'}${speed}`);
+  } else if (record.status === 'lost') {
+    lines.push(`💥 踩雷${seconds !== null ? ` ${seconds.toFixed(2)}s` : ''} · 3BV ${record.bbbv ?? '-'}`);
+  } else {
+    lines.push('⏳ 进行中');
+  }
+  const aids = [record.usedHints && '提示', record.usedUndo && '撤销'].filter(Boolean);
+  lines.push(aids.length > 0 ? `💡 使用了${aids.join('和')}` : '🧠 未使用提示');
+  if (streak.current > 0) lines.push(`🔥 连胜 ${streak.current} 天`);
+
+  const recent = Array.from({ length: RECENT_DAYS }, (_, i) => {
+    const day = findDailyRecord(records, shiftDate(record.date, i - RECENT_DAYS + 1), record.level);
+    return !day ? '⬜' : day.status === 'won' ? '🟩' : '🟥';
+  });
+  lines.push(recent.join(''));
+  return lines.join('\n');
+};
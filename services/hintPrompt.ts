@@ -0,0 +1,143 @@
+import { AIHint, CellData, CellRef, CellState, CoachRequest, HintRequest, TopologyId } from '../types';
+import { getTopology } from '../topology';
+import { AnalyzedMove, MOVE_VERDICTS, describeFatalMove } from '../analysis';
+import { cellName, describeDeduction } from '../solver';
+import { ReplayAction } from '../replay';
+import { isRecord } from '../json';
+
+// Prompt and answer format shared by the language-model hint providers
+
+// Helper to convert board to a string representation for the LLM
+const boardToString = (board: CellData[][]): string => {
+  return board.map(row => {
+    return row.map(cell => {
+      if (cell.state === CellState.REVEALED) {
+        return cell.value.toString();
+      }
+      if (cell.state === CellState.FLAGGED) {
+        return 'F';
+      }
+      return 'H'; // Hidden
+    }).join(' ');
+  }).join('\n');
+};
+
+export const buildHintPrompt = ({ board, minesLeft, topology, corrections }: HintRequest): string => `
+    你是一个扫雷游戏专家。
+    以下是当前棋盘状态：
+    - 'H' 代表隐藏的格子。
+    - 'F' 代表已标记为地雷的格子。
+    - '0'-'8' 代表已揭示的数字，表示相邻格子中地雷的数量。
+    - 棋盘规则：${getTopology(topology).description}
+
+    剩余地雷数: ${minesLeft}.
+
+    当前棋盘矩阵:
+    ${boardToString(board)}
+
+    请分析棋盘。找到最安全的一步（揭示 reveal）或者一个确定的地雷（标记 flag）。
+    如果不存在绝对确定的步骤，请给出一个概率上最安全的猜测。
+    请用中文简短地说明推理过程。
+    返回的坐标请使用 0-indexed (row, col)。
+  ${corrections?.length ? `
+    你之前的回答与棋盘矛盾，已被拒绝：
+    ${corrections.map(c => `- ${c}`).join('\n    ')}
+    请重新分析，给出一个不同且有效的答案。
+  ` : ''}`;
+
+// Deductions quoted in the loss prompt; the model only needs a few to make the point
+const MAX_QUOTED_DEDUCTIONS = 5;
+
+// Asks for a short commentary on the losing click, given the position before it and the
+// solver's verdict, so the model explains rather than re-solves
+export const buildLossPrompt = (move: AnalyzedMove, totalMines: number, topology?: TopologyId): string => {
+  const quoted = move.solvable
+    .slice(0, MAX_QUOTED_DEDUCTIONS)
+    .map(d => `- ${describeDeduction(move.board, d, totalMines)}`);
+  return `
+    你是一位扫雷教练。玩家刚刚踩雷输掉了一局，请用中文简短地（不超过 150 字）点评最后这一步，
+    说明当时应该怎样思考，语气友好。
+    - 'H' 代表隐藏的格子，'F' 代表插旗的格子，'0'-'8' 代表已揭示的数字。
+    - 棋盘规则：${getTopology(topology).description}
+    - 坐标为 0-indexed (row, col)，点评中请用"行 x, 列 y"（从 1 开始）称呼格子。
+
+    踩雷前的棋盘（总雷数 ${totalMines}）：
+    ${boardToString(move.board)}
+
+    致命的一步：${describeFatalMove(move)}
+    分类：${MOVE_VERDICTS[move.verdict].name}（${MOVE_VERDICTS[move.verdict].description}）
+  ${quoted.length > 0 ? `
+    当时可以确定的格子（求解器给出）：
+    ${quoted.join('\n    ')}
+  ` : ''}`;
+};
+
+const ACTION_NAMES: Record<ReplayAction['type'], string> = {
+  reveal: '点开',
+  chord: '双击',
+  flag: '插旗',
+  unflag: '取消标记',
+  question: '标记问号',
+};
+
+// The player's latest actions in words, oldest first, for the coach's context
+export const describeRecentMoves = (actions: ReplayAction[], limit: number): string[] =>
+  actions.slice(-limit).map(a => `${ACTION_NAMES[a.type]} ${cellName(a)}`);
+
+// System instruction of the coach chat, rebuilt for every question so it always shows the current board.
+// Cells are named as in cellName, 1-based, so findCellRefs can highlight them on the grid.
+export const buildCoachPrompt = ({ board, minesLeft, totalMines, topology, recentMoves }: CoachRequest): string => `
+    你是一位耐心的扫雷教练，正在和玩家一起看同一局棋。请用中文回答，简洁具体，可以分几句话。
+    - 'H' 代表隐藏的格子，'F' 代表已标记为地雷的格子，'0'-'8' 代表已揭示的数字。
+    - 棋盘规则：${getTopology(topology).description}
+    - 棋盘共 ${board.length} 行 ${board[0]?.length ?? 0} 列，第一行是行 1，第一列是列 1。
+    - 提到某个格子时，必须写成 "(行 x, 列 y)" 的形式，界面会在棋盘上高亮这些格子。
+    - 只根据棋盘上看得见的信息推理；不确定的地方要说明是概率判断。
+
+    总雷数 ${totalMines}，剩余地雷数 ${minesLeft}。
+
+    当前棋盘矩阵:
+    ${boardToString(board)}
+
+    玩家最近的操作（从早到晚）：
+    ${recentMoves.length > 0 ? recentMoves.join('\n    ') : '还没有操作。'}
+  `;
+
+// Cells an answer names as "(行 x, 列 y)", inside the board and without duplicates.
+// Also accepts full-width brackets and commas, which models like to mix in.
+export const CELL_REF_PATTERN = /[(（]\s*行\s*(\d+)\s*[,，]\s*列\s*(\d+)\s*[)）]/g;
+
+export const findCellRefs = (text: string, rows: number, cols: number): CellRef[] => {
+  const refs = new Map<string, CellRef>();
+  for (const match of text.matchAll(CELL_REF_PATTERN)) {
+    const row = Number(match[1]) - 1;
+    const col = Number(match[2]) - 1;
+    if (row >= 0 && row < rows && col >= 0 && col < cols) refs.set(`${row},${col}`, { row, col });
+  }
+  return [...refs.values()];
+};
+
+// Instruction for backends without structured output: the schema spelled out in words
+export const HINT_JSON_INSTRUCTION =
+  '只输出一个 JSON 对象，不要输出其他内容，格式为 {"row": 整数, "col": 整数, "action": "reveal" 或 "flag", "reasoning": 字符串}。';
+
+// Reads a model answer into a hint; null when it is not the expected JSON.
+// Tolerates code fences and text around the object, which local models often add.
+export const parseHintJson = (text: string): Omit<AIHint, 'source'> | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+  const { row, col, action, reasoning } = data;
+  if (typeof row !== 'number' || !Number.isInteger(row) || typeof col !== 'number' || !Number.isInteger(col)) return null;
+  if (action !== 'reveal' && action !== 'flag') return null;
+  if (reasoning !== undefined && typeof reasoning !== 'string') return null;
+  return { row, col, action, reasoning: typeof reasoning === 'string' ? reasoning : '' };
+};
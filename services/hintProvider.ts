@@ -0,0 +1,145 @@
+import { AIHint, CoachRequest, HintProvider, HintProviderId, HintRequest, HintSettings } from '../types';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { mockHintProvider } from './mockHintService';
+import { validateHint } from './hintValidation';
+import { loadJSON, saveJSON } from './storage';
+
+// Hint backends and their settings. The App only talks to requestHint; which model
+// answers (Gemini, a local OpenAI-compatible server, or the mock) is a user setting.
+
+export const HINT_PROVIDERS: Record<HintProviderId, HintProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockHintProvider,
+};
+
+export const DEFAULT_HINT_SETTINGS: HintSettings = {
+  provider: 'gemini',
+  timeoutMs: 20000,
+  maxAttempts: 3,
+  gemini: { model: 'gemini-2.5-flash', apiKey: '' },
+  openai: { model: 'llama3.1', endpoint: 'http://localhost:11434/v1', apiKey: '' },
+};
+
+const STORAGE_KEY = 'hintSettings';
+
+// Stored settings are merged over the defaults, so fields added later get a value
+export const loadHintSettings = (): HintSettings => {
+  const stored = loadJSON<Partial<HintSettings>>(STORAGE_KEY, {});
+  const settings: HintSettings = {
+    ...DEFAULT_HINT_SETTINGS,
+    ...stored,
+    gemini: { ...DEFAULT_HINT_SETTINGS.gemini, ...stored.gemini },
+    openai: { ...DEFAULT_HINT_SETTINGS.openai, ...stored.openai },
+  };
+  if (!(settings.provider in HINT_PROVIDERS)) settings.provider = DEFAULT_HINT_SETTINGS.provider;
+  if (!(settings.timeoutMs > 0)) settings.timeoutMs = DEFAULT_HINT_SETTINGS.timeoutMs;
+  if (!(settings.maxAttempts >= 1)) settings.maxAttempts = DEFAULT_HINT_SETTINGS.maxAttempts;
+  return settings;
+};
+
+export const saveHintSettings = (settings: HintSettings): void => saveJSON(STORAGE_KEY, settings);
+
+// One call to the configured provider, given up on after the configured timeout.
+// Throws an Error with a readable (Chinese) message when the call itself fails.
+const callProvider = async <T>(
+  settings: HintSettings,
+  call: (provider: HintProvider, signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const provider = HINT_PROVIDERS[settings.provider];
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+
+  try {
+    return await call(provider, controller.signal);
+  } catch (error) {
+    console.error(`${provider.name} request error:`, error);
+    if (controller.signal.aborted) {
+      throw new Error(`${provider.name} 在 ${Math.round(settings.timeoutMs / 1000)} 秒内没有回答。`);
+    }
+    throw error instanceof Error ? error : new Error(`${provider.name} 请求失败。`);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Asks the configured provider until it gives a hint that survives validateHint,
+// quoting each rejected answer's contradiction back to it, for at most maxAttempts answers.
+// Throws an Error with a readable (Chinese) message when no valid hint could be obtained.
+export const requestHint = async (request: HintRequest, settings: HintSettings): Promise<AIHint> => {
+  const provider = HINT_PROVIDERS[settings.provider];
+  const corrections: string[] = [];
+
+  for (let attempt = 1; attempt <= settings.maxAttempts; attempt++) {
+    const hint = await callProvider(settings, (p, signal) => p.getHint({ ...request, corrections }, settings, signal));
+    if (!hint) {
+      corrections.push('回答不是要求的 JSON 格式。');
+      continue;
+    }
+
+    const check = validateHint(hint, request.board, request.totalMines, request.topology);
+    if ('problem' in check) {
+      console.warn(`${provider.name} hint rejected (attempt ${attempt}):`, check.problem);
+      corrections.push(check.problem);
+      continue;
+    }
+    const move = { row: hint.row, col: hint.col, action: hint.action, certain: check.proven, probability: check.confidence, sources: check.sources };
+    return { ...hint, certain: check.proven, confidence: check.confidence, verified: true, attempts: attempt, moves: [move] };
+  }
+
+  throw new Error(`${provider.name} 连续 ${settings.maxAttempts} 次给出无效提示。最后一次：${corrections[corrections.length - 1]}`);
+};
+
+// Free-text explanation from the configured provider (no validation: it is commentary, not a move).
+// Throws an Error with a readable (Chinese) message when the call fails or the answer is empty.
+export const requestExplanation = async (prompt: string, settings: HintSettings): Promise<string> => {
+  const text = await callProvider(settings, (p, signal) => p.explain(prompt, settings, signal));
+  if (!text) throw new Error(`${HINT_PROVIDERS[settings.provider].name} 没有给出解说。`);
+  return text;
+};
+
+// Streams the coach's answer into onText and resolves with the whole of it. The timeout counts
+// from the last piece that arrived, so long answers are not cut off while they are still coming.
+// Aborting `signal` (the player closed the panel or pressed stop) resolves with what arrived so far.
+// Throws an Error with a readable (Chinese) message when the call fails or stalls.
+export const streamCoachReply = async (
+  request: CoachRequest,
+  settings: HintSettings,
+  onText: (text: string) => void,
+  signal: AbortSignal
+): Promise<string> => {
+  const provider = HINT_PROVIDERS[settings.provider];
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, settings.timeoutMs);
+  };
+  const stop = () => controller.abort();
+  signal.addEventListener('abort', stop, { once: true });
+
+  let answer = '';
+  restartTimer();
+  try {
+    await provider.streamChat(request, settings, controller.signal, text => {
+      answer += text;
+      restartTimer();
+      onText(text);
+    });
+  } catch (error) {
+    if (signal.aborted) return answer;
+    console.error(`${provider.name} coach error:`, error);
+    if (timedOut) throw new Error(`${provider.name} 超过 ${Math.round(settings.timeoutMs / 1000)} 秒没有新的回答。`);
+    throw error instanceof Error ? error : new Error(`${provider.name} 请求失败。`);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', stop);
+  }
+  if (answer === '' && !signal.aborted) throw new Error(`${provider.name} 没有给出回答。`);
+  return answer;
+};
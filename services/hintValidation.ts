@@ -0,0 +1,57 @@
+import { AIHint, CellData, CellRef, CellState, TopologyId } from '../types';
+import { describeDeduction, solveBoard } from '../solver';
+import { computeProbabilities } from '../probability';
+
+// Checks a model's hint against what the player can see before it is shown.
+// Rejects hints that name a cell off the board, a cell that is already open, or a
+// move the revealed numbers disprove; accepted hints get the probability the move is right,
+// and proven ones the numbers that prove them.
+
+export type HintCheck =
+  | { confidence: number; proven: boolean; sources: CellRef[] }
+  | { problem: string };
+
+// Coordinates as the model uses them (0-indexed), so corrections can be quoted back to it
+const modelCell = (row: number, col: number) => `(row=${row}, col=${col})`;
+
+export const validateHint = (
+  hint: Omit<AIHint, 'source'>,
+  board: CellData[][],
+  totalMines: number,
+  topology?: TopologyId
+): HintCheck => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const { row, col, action } = hint;
+  const target = modelCell(row, col);
+
+  if (row < 0 || row >= rows || col < 0 || col >= cols) {
+    return { problem: `${target} 不在棋盘上：row 必须在 0 到 ${rows - 1} 之间，col 必须在 0 到 ${cols - 1} 之间。` };
+  }
+  const cell = board[row][col];
+  if (cell.state === CellState.REVEALED) {
+    return { problem: `${target} 已经揭开（数字 ${cell.value}），只能选择 'H' 格子。` };
+  }
+  if (action === 'flag' && cell.state === CellState.FLAGGED) {
+    return { problem: `${target} 已经插了旗，请给出新的一步。` };
+  }
+
+  const solved = solveBoard(board, totalMines, topology);
+  const proof = [...solved.safe, ...solved.mines].find(d => d.row === row && d.col === col);
+  if (proof && proof.isMine === (action === 'reveal')) {
+    const verdict = proof.isMine ? '一定是地雷，不能揭开' : '一定不是地雷，不能标记';
+    return {
+      problem: `${target} ${verdict}。理由（行、列从 1 开始计数）：${describeDeduction(board, proof, totalMines)}`,
+    };
+  }
+  // The player's flags are not trusted, but revealing one needs a proof that it is wrong
+  if (action === 'reveal' && cell.state === CellState.FLAGGED && !proof) {
+    return { problem: `${target} 已被玩家插旗，无法证明它安全时不要建议揭开。` };
+  }
+
+  if (proof) return { confidence: 1, proven: true, sources: proof.sources };
+
+  const { probabilities } = computeProbabilities(board, totalMines, topology);
+  const risk = probabilities[row][col] ?? 0;
+  return { confidence: action === 'reveal' ? 1 - risk : risk, proven: false, sources: [] };
+};
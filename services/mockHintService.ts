@@ -0,0 +1,57 @@
+import { CellState, HintProvider } from '../types';
+import { cellName } from '../solver';
+
+// Offline stand-in for UI work and tests: answers after a short delay, without any model
+const MOCK_DELAY_MS = 300;
+// Streamed answers arrive a few characters at a time, like a slow model
+const MOCK_CHUNK_SIZE = 3;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+export const mockHintProvider: HintProvider = {
+  id: 'mock',
+  name: '模拟',
+  getHint: async ({ board, corrections }, _settings, signal) => {
+    await delay(MOCK_DELAY_MS, signal);
+
+    // The first hidden cell in reading order, then the next one after each rejection:
+    // predictable, not necessarily safe
+    const target = board.flat().filter(cell => cell.state === CellState.HIDDEN)[corrections?.length ?? 0];
+    if (!target) return null;
+    return {
+      row: target.row,
+      col: target.col,
+      action: 'reveal',
+      reasoning: '（模拟提示）按顺序选择了一个未揭开的格子，仅用于测试。',
+      source: 'mock',
+    };
+  },
+  explain: async (_prompt, _settings, signal) => {
+    await delay(MOCK_DELAY_MS, signal);
+    return '（模拟解说）这段文字由模拟接口生成，仅用于测试界面。';
+  },
+  streamChat: async ({ board, messages }, _settings, signal, onText) => {
+    const question = messages[messages.length - 1]?.content ?? '';
+    const target = board.flat().find(cell => cell.state === CellState.HIDDEN);
+    const answer = `（模拟教练）你问的是：“${question}”。` +
+      (target ? `我会先看看 ${cellName(target)} 周围的数字。` : '棋盘上已经没有隐藏的格子了。') +
+      '这段回答由模拟接口逐字生成，仅用于测试界面。';
+
+    await delay(MOCK_DELAY_MS, signal);
+    for (let i = 0; i < answer.length; i += MOCK_CHUNK_SIZE) {
+      onText(answer.slice(i, i + MOCK_CHUNK_SIZE));
+      await delay(MOCK_CHUNK_DELAY_MS, signal);
+    }
+  },
+};
@@ -0,0 +1,96 @@
+import { HintProvider, HintSettings } from '../types';
+import { HINT_JSON_INSTRUCTION, buildCoachPrompt, buildHintPrompt, parseHintJson } from './hintPrompt';
+
+type ApiMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const post = async (settings: HintSettings, body: Record<string, unknown>, signal: AbortSignal): Promise<Response> => {
+  const { endpoint, model, apiKey } = settings.openai;
+  if (!endpoint) throw new Error('未配置接口地址。');
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({ model, ...body }),
+  });
+  if (!response.ok) {
+    throw new Error(`接口返回错误 ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+  return response;
+};
+
+// One chat completion; the message content, or null when the answer has none
+const complete = async (
+  settings: HintSettings,
+  messages: ApiMessage[],
+  signal: AbortSignal,
+  options: Record<string, unknown> = {}
+): Promise<string | null> => {
+  const data = await (await post(settings, { messages, ...options }, signal)).json();
+  const content = data?.choices?.[0]?.message?.content;
+  return typeof content === 'string' ? content : null;
+};
+
+// Streamed completion: server-sent events, one "data: {json}" line per chunk, ending with "data: [DONE]"
+const streamCompletion = async (
+  settings: HintSettings,
+  messages: ApiMessage[],
+  signal: AbortSignal,
+  onText: (text: string) => void
+): Promise<void> => {
+  const response = await post(settings, { messages, stream: true }, signal);
+  if (!response.body) throw new Error('接口不支持流式回答。');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const payload = line.trim();
+      if (!payload.startsWith('data:')) continue;
+      const data = payload.slice(5).trim();
+      if (data === '[DONE]') return;
+      try {
+        const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof text === 'string' && text) onText(text);
+      } catch {
+        // Keep-alive comments and malformed chunks carry no text
+      }
+    }
+  }
+};
+
+// Any server speaking the OpenAI chat-completions API: a local Ollama
+// (http://localhost:11434/v1), llama.cpp's server (http://localhost:8080/v1), or a hosted one
+export const openAiCompatibleProvider: HintProvider = {
+  id: 'openai',
+  name: 'OpenAI 兼容接口',
+  getHint: async (request, settings, signal) => {
+    const content = await complete(settings, [
+      { role: 'system', content: HINT_JSON_INSTRUCTION },
+      { role: 'user', content: buildHintPrompt(request) },
+    ], signal, { temperature: 0, response_format: { type: 'json_object' } });
+    if (content === null) return null;
+
+    const hint = parseHintJson(content);
+    return hint && { ...hint, source: 'openai' };
+  },
+  explain: async (prompt, settings, signal) => {
+    const content = await complete(settings, [{ role: 'user', content: prompt }], signal);
+    return content?.trim() || null;
+  },
+  streamChat: async (request, settings, signal, onText) => {
+    await streamCompletion(settings, [
+      { role: 'system', content: buildCoachPrompt(request) },
+      ...request.messages,
+    ], signal, onText);
+  },
+};
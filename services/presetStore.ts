@@ -0,0 +1,29 @@
+import { Difficulty } from '../types';
+import { validateDifficulty } from '../gameEngine';
+import { loadJSON, saveJSON } from './storage';
+
+// Named custom difficulties, kept in local storage
+
+const STORAGE_KEY = 'customPresets';
+
+export const loadCustomPresets = (): Difficulty[] => {
+  const stored = loadJSON<unknown>(STORAGE_KEY, []);
+  if (!Array.isArray(stored)) return [];
+  // Drop anything that no longer passes the engine's limits
+  return stored.filter((d): d is Difficulty =>
+    d && typeof d.name === 'string' && validateDifficulty(d) === null
+  );
+};
+
+// Adds the preset, replacing any existing one with the same name
+export const saveCustomPreset = (preset: Difficulty): Difficulty[] => {
+  const presets = [...loadCustomPresets().filter(p => p.name !== preset.name), preset];
+  saveJSON(STORAGE_KEY, presets);
+  return presets;
+};
+
+export const deleteCustomPreset = (name: string): Difficulty[] => {
+  const presets = loadCustomPresets().filter(p => p.name !== name);
+  saveJSON(STORAGE_KEY, presets);
+  return presets;
+};
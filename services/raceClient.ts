@@ -0,0 +1,132 @@
+import { CellData, Difficulty, GameStatus } from '../types';
+import { RACE_PORT, RaceClientMessage, RaceRoom, RaceServerMessage, boardMask } from '../race';
+import { loadJSON, saveJSON } from './storage';
+
+// Browser side of a race: one WebSocket to the local race server (server/raceServer.ts)
+
+export interface RaceEventMap {
+  room: RaceRoom;
+  start: { gameCode: string; countdownMs: number };
+  error: { message: string };
+  closed: { reason: string | null }; // null when the player left on purpose
+}
+
+export type RaceEventName = keyof RaceEventMap;
+type RaceListener<K extends RaceEventName> = (event: RaceEventMap[K]) => void;
+
+export interface RaceProfile {
+  name: string;
+  serverUrl: string;
+}
+
+const PROFILE_KEY = 'raceProfile';
+
+// The race server normally runs next to the dev server, so default to the page's host
+export const loadRaceProfile = (): RaceProfile => ({
+  name: '',
+  serverUrl: `ws://${window.location.hostname || 'localhost'}:${RACE_PORT}`,
+  ...loadJSON<Partial<RaceProfile>>(PROFILE_KEY, {}),
+});
+
+export const saveRaceProfile = (profile: RaceProfile): void => saveJSON(PROFILE_KEY, profile);
+
+export class RaceClient {
+  playerId: string | null = null;
+
+  private readonly socket: WebSocket;
+  // One set per event, keyed so each holds listeners of its own payload type
+  private readonly listeners: { [K in RaceEventName]: Set<RaceListener<K>> } = {
+    room: new Set(),
+    start: new Set(),
+    error: new Set(),
+    closed: new Set(),
+  };
+  private readonly opened: Promise<void>;
+  private leaving = false;
+  private lastProgress = '';
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url);
+    this.opened = new Promise((resolve, reject) => {
+      this.socket.addEventListener('open', () => resolve(), { once: true });
+      this.socket.addEventListener('error', () => reject(new Error(`无法连接对战服务器 ${url}，请先运行 npm run race-server。`)), { once: true });
+    });
+    this.socket.addEventListener('message', event => this.receive(event.data));
+    this.socket.addEventListener('close', () => {
+      this.emit('closed', { reason: this.leaving ? null : '与对战服务器的连接已断开。' });
+    });
+  }
+
+  on<K extends RaceEventName>(event: K, listener: RaceListener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => this.listeners[event].delete(listener);
+  }
+
+  // Resolves once connected; rejects with a readable (Chinese) message otherwise
+  async create(name: string, difficulty: Difficulty, noGuess: boolean): Promise<void> {
+    await this.opened;
+    this.send({ type: 'create', name, difficulty, noGuess });
+  }
+
+  async join(room: string, name: string): Promise<void> {
+    await this.opened;
+    this.send({ type: 'join', room, name });
+  }
+
+  start(): void {
+    this.send({ type: 'start' });
+  }
+
+  // Sends the board only when what the others can see of it changed
+  sendProgress(board: CellData[][], status: GameStatus): void {
+    const mask = boardMask(board);
+    const raceStatus = status === GameStatus.WON ? 'won' : status === GameStatus.LOST ? 'lost' : 'playing';
+    const key = `${raceStatus}:${mask}`;
+    if (key === this.lastProgress) return;
+    this.lastProgress = key;
+    this.send({ type: 'progress', mask, status: raceStatus });
+  }
+
+  // Gives up the race board but stays in the room for the rematch
+  forfeit(): void {
+    this.send({ type: 'forfeit' });
+  }
+
+  leave(): void {
+    this.leaving = true;
+    this.send({ type: 'leave' });
+    this.socket.close();
+  }
+
+  private send(message: RaceClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private receive(data: unknown): void {
+    let message: RaceServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    switch (message.type) {
+      case 'welcome':
+        this.playerId = message.playerId;
+        break;
+      case 'room':
+        this.emit('room', message.room);
+        break;
+      case 'start':
+        this.lastProgress = '';
+        this.emit('start', { gameCode: message.gameCode, countdownMs: message.countdownMs });
+        break;
+      case 'error':
+        this.emit('error', { message: message.message });
+        break;
+    }
+  }
+
+  private emit<K extends RaceEventName>(event: K, payload: RaceEventMap[K]): void {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+}
@@ -0,0 +1,109 @@
+import { AIHint, CellData, CellRef, CellState, Difficulty, GameStatus, HintMove, HintSource } from '../types';
+import { validateDifficulty } from '../gameEngine';
+import { isTopologyId } from '../topology';
+import { ClickCounts } from '../metrics';
+import { ReplayAction, isReplayAction } from '../replay';
+import { isRecord } from '../json';
+import { loadJSON, saveJSON, removeJSON } from './storage';
+import { HINT_PROVIDERS } from './hintProvider';
+
+// Autosave of the game in progress, so a reload can resume it
+
+export const SAVE_VERSION = 1;
+
+export interface SavedGame {
+  version: typeof SAVE_VERSION;
+  difficulty: Difficulty;
+  board: CellData[][];
+  gameStatus: GameStatus.PLAYING;
+  minesLeft: number;
+  elapsedMs: number;
+  aiHint: AIHint | null;
+  gameCode: string | null;
+  actions: ReplayAction[];
+  clicks: ClickCounts;
+  usedHints: boolean;
+  usedUndo: boolean;
+  savedAt: string; // ISO timestamp
+}
+
+const STORAGE_KEY = 'savedGame';
+
+// A CellData board takes ~50 bytes a cell as JSON; bigger boards would overflow localStorage
+// (and stall the page on every autosave), so they are simply not saved
+export const MAX_SAVED_CELLS = 10000;
+
+const CELL_STATES = Object.values(CellState) as string[];
+
+const isInt = (n: unknown): n is number => Number.isInteger(n);
+
+export const isDifficulty = (value: unknown): value is Difficulty => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !isInt(value.rows) || !isInt(value.cols) || !isInt(value.mines)) {
+    return false;
+  }
+  const { topology } = value;
+  if (topology !== undefined && !isTopologyId(topology)) return false;
+  return validateDifficulty({
+    rows: value.rows,
+    cols: value.cols,
+    mines: value.mines,
+    topology: isTopologyId(topology) ? topology : undefined,
+  }) === null;
+};
+
+const isCell = (value: unknown, row: number, col: number): value is CellData =>
+  isRecord(value) && value.row === row && value.col === col && isInt(value.value) &&
+  typeof value.state === 'string' && CELL_STATES.includes(value.state);
+
+const isBoard = (value: unknown, rows: number, cols: number): value is CellData[][] =>
+  Array.isArray(value) && value.length === rows && value.every((row: unknown, r) =>
+    Array.isArray(row) && row.length === cols && row.every((cell: unknown, c) => isCell(cell, r, c))
+  );
+
+const isClickCounts = (value: unknown): value is ClickCounts =>
+  isRecord(value) && isInt(value.left) && isInt(value.right) && isInt(value.chord) && isInt(value.effective);
+
+const isCellRef = (value: unknown): value is CellRef => isRecord(value) && isInt(value.row) && isInt(value.col);
+
+const isHintMove = (value: unknown): value is HintMove =>
+  isRecord(value) && isCellRef(value) && (value.action === 'reveal' || value.action === 'flag') &&
+  typeof value.certain === 'boolean' && typeof value.probability === 'number' &&
+  Array.isArray(value.sources) && value.sources.every(isCellRef);
+
+// The hint panel looks the provider up by its source, so an unknown one would break it
+const isHintSource = (value: unknown): value is HintSource =>
+  value === 'solver' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(HINT_PROVIDERS, value));
+
+// Hints are only shown again, so their text fields need no more than a shape check
+const isHint = (value: unknown): value is AIHint =>
+  isRecord(value) && isCellRef(value) && typeof value.reasoning === 'string' && (value.action === 'reveal' || value.action === 'flag') &&
+  (value.source === undefined || isHintSource(value.source)) &&
+  (value.moves === undefined || (Array.isArray(value.moves) && value.moves.every(isHintMove)));
+
+const isSavedGame = (value: unknown): value is SavedGame => {
+  if (!isRecord(value) || value.version !== SAVE_VERSION || value.gameStatus !== GameStatus.PLAYING) return false;
+  const { difficulty } = value;
+  if (!isDifficulty(difficulty) || !isBoard(value.board, difficulty.rows, difficulty.cols)) return false;
+  return Array.isArray(value.actions) && value.actions.every(a => isReplayAction(a, difficulty.rows, difficulty.cols)) &&
+    typeof value.minesLeft === 'number' && typeof value.elapsedMs === 'number' &&
+    (value.aiHint === null || isHint(value.aiHint)) &&
+    (value.gameCode === null || typeof value.gameCode === 'string') &&
+    isClickCounts(value.clicks) && typeof value.usedHints === 'boolean' && typeof value.usedUndo === 'boolean' &&
+    typeof value.savedAt === 'string';
+};
+
+export const saveGame = (game: Omit<SavedGame, 'version' | 'savedAt'>): void => {
+  if (game.difficulty.rows * game.difficulty.cols > MAX_SAVED_CELLS) {
+    removeJSON(STORAGE_KEY);
+    return;
+  }
+  saveJSON(STORAGE_KEY, { ...game, version: SAVE_VERSION, savedAt: new Date().toISOString() });
+};
+
+// Returns null when there is no save, or when it is outdated or corrupt
+export const loadSavedGame = (): SavedGame | null => {
+  const data = loadJSON<unknown>(STORAGE_KEY, null);
+  return isSavedGame(data) ? data : null;
+};
+
+export const clearSavedGame = (): void => removeJSON(STORAGE_KEY);
@@ -0,0 +1,112 @@
+import { AIHint, CellData, CellRef, CellState, HintMove, TopologyId } from '../types';
+import { cellName, Deduction, describeDeduction, solveBoard } from '../solver';
+import { computeProbabilities } from '../probability';
+import { isRevealed } from '../constraints';
+import { getNeighbors } from '../gameEngine';
+
+// Guesses listed next to the best one, so the player can compare the risks
+const GUESS_MOVES = 3;
+
+const isFlagged = (board: CellData[][], ref: CellRef) => board[ref.row][ref.col].state === CellState.FLAGGED;
+
+const certainMove = (d: Deduction): HintMove => ({
+  row: d.row,
+  col: d.col,
+  action: d.isMine ? 'flag' : 'reveal',
+  certain: true,
+  probability: 1,
+  sources: d.sources,
+});
+
+// The revealed numbers around a guessed cell are what its probability rests on
+const guessMove = (board: CellData[][], ref: CellRef, risk: number, topology?: TopologyId): HintMove => ({
+  row: ref.row,
+  col: ref.col,
+  action: 'reveal',
+  certain: false,
+  probability: 1 - risk,
+  sources: getNeighbors(board.length, board[0].length, ref.row, ref.col, topology)
+    .filter(([r, c]) => isRevealed(board[r][c]))
+    .map(([row, col]) => ({ row, col })),
+});
+
+// No certain move: suggest the unflagged cell with the lowest exact mine probability
+const pickGuess = (board: CellData[][], totalMines: number, topology?: TopologyId): AIHint | null => {
+  const { probabilities, safest } = computeProbabilities(board, totalMines, topology);
+  if (!safest) return null;
+  const risk = probabilities[safest.row][safest.col] ?? 0;
+
+  const moves = board.flat()
+    .filter(cell => probabilities[cell.row][cell.col] !== null && !isFlagged(board, cell))
+    .sort((a, b) => (probabilities[a.row][a.col] ?? 0) - (probabilities[b.row][b.col] ?? 0))
+    .filter(cell => cell.row !== safest.row || cell.col !== safest.col)
+    .slice(0, GUESS_MOVES - 1)
+    .map(cell => guessMove(board, cell, probabilities[cell.row][cell.col] ?? 0, topology));
+
+  return {
+    row: safest.row,
+    col: safest.col,
+    action: 'reveal',
+    reasoning: `当前局面没有可以严格推出的安全格，只能猜测。${cellName(safest)} 是地雷的概率最低（${(risk * 100).toFixed(1)}%）。`,
+    source: 'solver',
+    certain: false,
+    confidence: 1 - risk,
+    moves: [guessMove(board, safest, risk, topology), ...moves],
+  };
+};
+
+// Offline replacement for getAIHint: always correct when a certain move exists.
+// Its moves list every certain move on the board: safe cells, then mines, then wrong flags to clear.
+export const getSolverHint = (board: CellData[][], totalMines: number, topology?: TopologyId): AIHint | null => {
+  const cells = board.flat();
+  if (!cells.some(cell => !isRevealed(cell))) return null;
+
+  if (!cells.some(isRevealed)) {
+    const row = Math.floor(board.length / 2);
+    const col = Math.floor(board[0].length / 2);
+    return {
+      row,
+      col,
+      action: 'reveal',
+      reasoning: '第一次点击必定安全，从中间开始更容易打开大片空白区域。',
+      source: 'solver',
+      certain: true,
+      confidence: 1,
+      moves: [{ row, col, action: 'reveal', certain: true, probability: 1, sources: [] }],
+    };
+  }
+
+  const result = solveBoard(board, totalMines, topology);
+  const ranked = [
+    ...result.safe.filter(d => !isFlagged(board, d)),
+    ...result.mines.filter(d => !isFlagged(board, d)),
+    ...result.safe.filter(d => isFlagged(board, d)),
+  ];
+  const choice = ranked[0];
+
+  if (!choice) return pickGuess(board, totalMines, topology);
+
+  let reasoning = describeDeduction(board, choice, totalMines);
+  if (!choice.isMine && isFlagged(board, choice)) reasoning += ' 该格目前被错误地插了旗。';
+
+  return {
+    row: choice.row,
+    col: choice.col,
+    action: choice.isMine ? 'flag' : 'reveal',
+    reasoning,
+    source: 'solver',
+    certain: true,
+    confidence: 1,
+    moves: ranked.map(certainMove),
+  };
+};
+
+// A hint's ranked moves; hints from before move lists (e.g. in old saves) become a list of one
+export const hintMoves = (hint: AIHint): HintMove[] => hint.moves ?? [{
+  row: hint.row,
+  col: hint.col,
+  action: hint.action,
+  certain: !!hint.certain,
+  probability: hint.confidence ?? (hint.certain ? 1 : 0),
+  sources: [],
+}];
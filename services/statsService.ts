@@ -0,0 +1,122 @@
+import { Difficulty } from '../types';
+import { DEFAULT_TOPOLOGY } from '../topology';
+import { isRecord } from '../json';
+import { loadJSON, saveJSON, removeJSON } from './storage';
+import { isDifficulty } from './saveService';
+
+// Local game history and the statistics derived from it
+
+export interface GameRecord {
+  id: string;
+  difficulty: Difficulty;
+  won: boolean;
+  timeMs: number;
+  bbbv?: number; // 3BV of the board, see metrics.ts
+  gameCode: string | null;
+  usedHints: boolean; // AI hints or the probability overlay were used: kept off the leaderboard
+  usedUndo?: boolean; // Practice-mode undo was used: also kept off the leaderboard
+  finishedAt: string; // ISO timestamp
+}
+
+export interface TimeBucket {
+  fromMs: number;
+  toMs: number;
+  count: number;
+}
+
+export interface DifficultyStats {
+  played: number;
+  won: number;
+  winRate: number;
+  currentStreak: number;
+  bestStreak: number;
+  timeDistribution: TimeBucket[]; // Winning times, hint-assisted ones included
+  bestTimes: GameRecord[]; // Top 10 unassisted wins (no hints, no undo)
+}
+
+const STORAGE_KEY = 'history';
+const MAX_RECORDS = 2000;
+const LEADERBOARD_SIZE = 10;
+const DISTRIBUTION_BUCKETS = 8;
+
+// Games are grouped by board shape, so renamed presets keep their history.
+// Square boards keep the plain key they had before topologies existed.
+export const difficultyKey = (d: Pick<Difficulty, 'rows' | 'cols' | 'mines' | 'topology'>) => {
+  const key = `${d.rows}x${d.cols}/${d.mines}`;
+  return d.topology && d.topology !== DEFAULT_TOPOLOGY ? `${key}@${d.topology}` : key;
+};
+
+const isGameRecord = (value: unknown): value is GameRecord =>
+  isRecord(value) && typeof value.id === 'string' && isDifficulty(value.difficulty) && typeof value.won === 'boolean' &&
+  typeof value.timeMs === 'number' && (value.bbbv === undefined || typeof value.bbbv === 'number') &&
+  (value.gameCode === null || typeof value.gameCode === 'string') && typeof value.usedHints === 'boolean' &&
+  (value.usedUndo === undefined || typeof value.usedUndo === 'boolean') && typeof value.finishedAt === 'string';
+
+// Records that are corrupt or hand-edited into another shape are dropped, so they cannot break the stats
+export const loadHistory = (): GameRecord[] => {
+  const stored = loadJSON<unknown>(STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored.filter(isGameRecord) : [];
+};
+
+export const addGameRecord = (record: Omit<GameRecord, 'id' | 'finishedAt'>): GameRecord[] => {
+  const finishedAt = new Date().toISOString();
+  const full: GameRecord = { ...record, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, finishedAt };
+  const history = [...loadHistory(), full].slice(-MAX_RECORDS);
+  saveJSON(STORAGE_KEY, history);
+  return history;
+};
+
+// Takes a record back out, e.g. a loss that practice-mode undo reverted
+export const removeGameRecord = (id: string): GameRecord[] => {
+  const history = loadHistory().filter(r => r.id !== id);
+  saveJSON(STORAGE_KEY, history);
+  return history;
+};
+
+export const clearHistory = (): GameRecord[] => {
+  removeJSON(STORAGE_KEY);
+  return [];
+};
+
+const buildDistribution = (times: number[]): TimeBucket[] => {
+  if (times.length === 0) return [];
+  const min = Math.min(...times);
+  const max = Math.max(...times);
+  const width = Math.max((max - min) / DISTRIBUTION_BUCKETS, 1);
+  const buckets: TimeBucket[] = Array.from({ length: DISTRIBUTION_BUCKETS }, (_, i) => ({
+    fromMs: min + i * width,
+    toMs: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const t of times) {
+    buckets[Math.min(Math.floor((t - min) / width), DISTRIBUTION_BUCKETS - 1)].count++;
+  }
+  return buckets;
+};
+
+export const computeStats = (history: GameRecord[], key: string): DifficultyStats => {
+  const games = history
+    .filter(r => difficultyKey(r.difficulty) === key)
+    .sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+
+  let currentStreak = 0;
+  let bestStreak = 0;
+  for (const game of games) {
+    currentStreak = game.won ? currentStreak + 1 : 0;
+    bestStreak = Math.max(bestStreak, currentStreak);
+  }
+
+  const wins = games.filter(g => g.won);
+  return {
+    played: games.length,
+    won: wins.length,
+    winRate: games.length > 0 ? wins.length / games.length : 0,
+    currentStreak,
+    bestStreak,
+    timeDistribution: buildDistribution(wins.map(g => g.timeMs)),
+    bestTimes: wins
+      .filter(g => !g.usedHints && !g.usedUndo)
+      .sort((a, b) => a.timeMs - b.timeMs)
+      .slice(0, LEADERBOARD_SIZE),
+  };
+};
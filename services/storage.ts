@@ -0,0 +1,30 @@
+// Thin wrappers around localStorage: storage may be unavailable (private mode, quota),
+// and stored data may be stale or hand-edited, so failures fall back instead of throwing.
+
+const KEY_PREFIX = 'minesweeper.';
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error(`Failed to load "${key}" from storage:`, error);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save "${key}" to storage:`, error);
+  }
+};
+
+export const removeJSON = (key: string): void => {
+  try {
+    window.localStorage.removeItem(KEY_PREFIX + key);
+  } catch (error) {
+    console.error(`Failed to remove "${key}" from storage:`, error);
+  }
+};
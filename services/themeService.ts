@@ -0,0 +1,48 @@
+import { BUILTIN_THEMES, CLASSIC_THEME, DEFAULT_THEME_ID, Theme, parseTheme, serializeTheme } from '../theme';
+import { loadJSON, saveJSON } from './storage';
+
+// The chosen theme and the imported ones, kept in local storage
+
+const SELECTED_KEY = 'theme';
+const CUSTOM_KEY = 'customThemes';
+
+// Imported themes are stored as their files and read back through parseTheme,
+// so a hand-edited entry that no longer parses is dropped instead of breaking the board
+export const loadCustomThemes = (): Theme[] => {
+  const stored = loadJSON<unknown>(CUSTOM_KEY, []);
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(entry => {
+    try {
+      return [parseTheme(JSON.stringify(entry))];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const saveCustomThemes = (themes: Theme[]) => {
+  saveJSON(CUSTOM_KEY, themes.map(theme => JSON.parse(serializeTheme(theme))));
+};
+
+// Adds the theme, replacing any imported one with the same name
+export const saveCustomTheme = (theme: Theme): Theme[] => {
+  const themes = [...loadCustomThemes().filter(t => t.id !== theme.id), theme];
+  saveCustomThemes(themes);
+  return themes;
+};
+
+export const deleteCustomTheme = (id: string): Theme[] => {
+  const themes = loadCustomThemes().filter(t => t.id !== id);
+  saveCustomThemes(themes);
+  return themes;
+};
+
+export const findTheme = (id: string, customThemes: Theme[]): Theme =>
+  [...BUILTIN_THEMES, ...customThemes].find(t => t.id === id) ?? CLASSIC_THEME;
+
+export const loadThemeId = (): string => {
+  const id = loadJSON<unknown>(SELECTED_KEY, DEFAULT_THEME_ID);
+  return typeof id === 'string' ? id : DEFAULT_THEME_ID;
+};
+
+export const saveThemeId = (id: string): void => saveJSON(SELECTED_KEY, id);
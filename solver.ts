@@ -0,0 +1,191 @@
+import { CellData, CellRef, TopologyId } from './types';
+import {
+  Constraint,
+  buildConstraints,
+  combineTotals,
+  enumerateComponent,
+  isRevealed,
+  possibleTotals,
+  splitComponents,
+} from './constraints';
+
+// Deterministic Minesweeper solver.
+// Works purely on what the player can see: revealed numbers and the total mine count.
+// Flags are NOT trusted (the player may have placed them wrongly), so flagged and
+// question-marked cells are treated like any other unrevealed cell.
+
+export type DeductionRule = 'single' | 'subset' | 'enumeration';
+
+export interface Deduction {
+  row: number;
+  col: number;
+  isMine: boolean;
+  rule: DeductionRule;
+  sources: CellRef[]; // Revealed number cells whose constraints prove this deduction
+}
+
+export interface SolverResult {
+  safe: Deduction[];
+  mines: Deduction[];
+}
+
+export const solveBoard = (board: CellData[][], totalMines: number, topology?: TopologyId): SolverResult => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const known = new Map<number, Deduction>();
+  const toRef = (idx: number): CellRef => ({ row: Math.floor(idx / cols), col: idx % cols });
+
+  const deduce = (idx: number, isMine: boolean, rule: DeductionRule, sources: number[]): boolean => {
+    if (known.has(idx)) return false;
+    const { row, col } = toRef(idx);
+    known.set(idx, { row, col, isMine, rule, sources: sources.map(toRef) });
+    return true;
+  };
+
+  // Rule 1: a number whose remaining mines are 0, or equal to its unknown neighbours
+  const applySingleRule = (constraints: Constraint[]): boolean => {
+    let progress = false;
+    for (const con of constraints) {
+      if (con.mines === 0) {
+        for (const cell of con.cells) progress = deduce(cell, false, 'single', [con.source]) || progress;
+      } else if (con.mines === con.cells.length) {
+        for (const cell of con.cells) progress = deduce(cell, true, 'single', [con.source]) || progress;
+      }
+    }
+    return progress;
+  };
+
+  // Rule 2: if A's unknown cells are a subset of B's, the cells only B sees hold exactly B - A mines
+  const applySubsetRule = (constraints: Constraint[]): boolean => {
+    const byCell = new Map<number, Constraint[]>();
+    for (const con of constraints) {
+      for (const cell of con.cells) {
+        if (!byCell.has(cell)) byCell.set(cell, []);
+        byCell.get(cell)!.push(con);
+      }
+    }
+
+    let progress = false;
+    for (const a of constraints) {
+      const candidates = new Set<Constraint>();
+      for (const cell of a.cells) {
+        for (const b of byCell.get(cell)!) {
+          if (b !== a && b.cells.length > a.cells.length) candidates.add(b);
+        }
+      }
+      for (const b of candidates) {
+        const bCells = new Set(b.cells);
+        if (!a.cells.every(cell => bCells.has(cell))) continue;
+        const aCells = new Set(a.cells);
+        const diff = b.cells.filter(cell => !aCells.has(cell));
+        const diffMines = b.mines - a.mines;
+        if (diffMines === 0) {
+          for (const cell of diff) progress = deduce(cell, false, 'subset', [a.source, b.source]) || progress;
+        } else if (diffMines === diff.length) {
+          for (const cell of diff) progress = deduce(cell, true, 'subset', [a.source, b.source]) || progress;
+        }
+      }
+    }
+    return progress;
+  };
+
+  // Rule 3: enumerate every frontier configuration and keep those compatible with the
+  // global mine count; a cell that is a mine in none (or all) of them is decided.
+  const applyEnumeration = (constraints: Constraint[]): boolean => {
+    let unknownCount = 0;
+    let knownMines = 0;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (isRevealed(board[r][c])) continue;
+        const deduction = known.get(r * cols + c);
+        if (!deduction) unknownCount++;
+        else if (deduction.isMine) knownMines++;
+      }
+    }
+
+    const components = splitComponents(constraints).map(g => enumerateComponent(g.cells, g.constraints));
+    if (components.some(comp => comp.exact && comp.solutionCounts.every(count => count === 0))) {
+      return false; // Inconsistent position, nothing can be proven
+    }
+
+    const frontierSize = components.reduce((sum, comp) => sum + comp.cells.length, 0);
+    const interiorCount = unknownCount - frontierSize;
+    const remaining = totalMines - knownMines;
+    const fitsInterior = (leftover: number, low: number, high: number) => leftover >= low && leftover <= high;
+
+    let progress = false;
+    const totals = components.map(possibleTotals);
+
+    components.forEach((comp, i) => {
+      if (!comp.exact) return;
+      const others = combineTotals(totals.filter((_, j) => j !== i));
+      // fits[k]: can the rest of the board absorb the other remaining - k mines?
+      const fits = comp.solutionCounts.map((_, k) =>
+        others.some((ok, s) => ok && fitsInterior(remaining - k - s, 0, interiorCount))
+      );
+      const sources = comp.constraints.map(con => con.source);
+
+      comp.cells.forEach((cell, j) => {
+        let canBeMine = false;
+        let canBeSafe = false;
+        comp.solutionCounts.forEach((count, k) => {
+          if (!fits[k] || count === 0) return;
+          if (comp.mineCounts[k][j] > 0) canBeMine = true;
+          if (comp.mineCounts[k][j] < count) canBeSafe = true;
+        });
+        if (canBeMine && !canBeSafe) progress = deduce(cell, true, 'enumeration', sources) || progress;
+        if (canBeSafe && !canBeMine) progress = deduce(cell, false, 'enumeration', sources) || progress;
+      });
+    });
+
+    if (interiorCount > 0) {
+      const all = combineTotals(totals);
+      const canBeMine = all.some((ok, s) => ok && fitsInterior(remaining - s, 1, interiorCount));
+      const canBeSafe = all.some((ok, s) => ok && fitsInterior(remaining - s, 0, interiorCount - 1));
+      if (canBeMine !== canBeSafe) {
+        const frontier = new Set(components.flatMap(comp => comp.cells));
+        for (let idx = 0; idx < rows * cols; idx++) {
+          const { row, col } = toRef(idx);
+          if (isRevealed(board[row][col]) || known.has(idx) || frontier.has(idx)) continue;
+          progress = deduce(idx, canBeMine, 'enumeration', []) || progress;
+        }
+      }
+    }
+    return progress;
+  };
+
+  let progress = true;
+  while (progress) {
+    const constraints = buildConstraints(board, known, topology);
+    progress = applySingleRule(constraints) || applySubsetRule(constraints) || applyEnumeration(constraints);
+  }
+
+  const deductions = [...known.values()];
+  return {
+    safe: deductions.filter(d => !d.isMine),
+    mines: deductions.filter(d => d.isMine),
+  };
+};
+
+export const cellName = (ref: CellRef) => `(行 ${ref.row + 1}, 列 ${ref.col + 1})`;
+
+// Human-readable (Chinese) justification of a single deduction
+export const describeDeduction = (board: CellData[][], d: Deduction, totalMines: number): string => {
+  const target = cellName(d);
+  const verdict = d.isMine ? '必定是地雷' : '必定安全';
+  const numberAt = (ref: CellRef) => `${cellName(ref)} 的数字 ${board[ref.row][ref.col].value}`;
+
+  switch (d.rule) {
+    case 'single':
+      return d.isMine
+        ? `${numberAt(d.sources[0])} 周围未确定的格子数恰好等于还缺的地雷数，因此 ${target} ${verdict}。`
+        : `${numberAt(d.sources[0])} 周围的地雷已经全部确定，因此 ${target} ${verdict}。`;
+    case 'subset':
+      return `${numberAt(d.sources[0])} 的未知邻格全部包含在 ${numberAt(d.sources[1])} 的未知邻格中，` +
+        `多出的格子${d.isMine ? '恰好容纳剩余的地雷' : '中不可能再有地雷'}，因此 ${target} ${verdict}。`;
+    case 'enumeration':
+      return d.sources.length > 0
+        ? `枚举了与周围 ${d.sources.length} 个数字及总雷数 ${totalMines} 相符的所有布雷方案，${target} 在每一种方案中都${d.isMine ? '是地雷' : '没有地雷'}。`
+        : `结合总雷数 ${totalMines} 计算，边界以外的格子${d.isMine ? '必须全部是地雷' : '已不可能再有地雷'}，因此 ${target} ${verdict}。`;
+  }
+};
@@ -0,0 +1,249 @@
+import { isRecord } from './json';
+
+// Board themes: the colours of cells, numbers, LED counters and the board behind the cells,
+// and the mine and flag glyphs. The DOM board reads the colours from CSS custom properties
+// (themeVariables), the canvas board from the theme itself.
+
+// A glyph is a short text (usually an emoji), or an SVG path on a 24x24 grid filled with one colour
+export type ThemeGlyph = string | { path: string; color: string };
+
+export interface Theme {
+  id: string;
+  name: string;
+  cell: {
+    hidden: string; // Face of a covered cell
+    light: string; // Top and left bevel of a covered cell
+    shade: string; // Bottom and right bevel of a covered cell
+    revealed: string;
+    grid: string; // Lines between revealed cells
+    exploded: string; // The mine that was hit
+    mark: string; // "?" and text glyphs
+  };
+  numbers: string[]; // Colours of 1 to 8
+  glyphs: { mine: ThemeGlyph; flag: ThemeGlyph };
+  led: { background: string; digits: string; border: string };
+  board: string; // Behind the cells, e.g. between the staggered rows of hex boards
+  // Hues of the probability overlay, from certainly safe to certainly a mine
+  probability: { safeHue: number; mineHue: number };
+}
+
+const MINE_PATH = 'M5 12a7 7 0 1 1 14 0a7 7 0 1 1 -14 0Z M11 1h2v22h-2Z M1 11h22v2H1Z M4.2 5.6 5.6 4.2 19.8 18.4 18.4 19.8Z M18.4 4.2 19.8 5.6 5.6 19.8 4.2 18.4Z';
+const FLAG_PATH = 'M7 3h2v17H7Z M4 20h10v2H4Z M9 3l10 4.5L9 12Z';
+
+export const CLASSIC_THEME: Theme = {
+  id: 'classic',
+  name: '经典',
+  cell: {
+    hidden: '#cbd5e1',
+    light: '#ffffff',
+    shade: '#475569',
+    revealed: '#e2e8f0',
+    grid: '#cbd5e1',
+    exploded: '#ef4444',
+    mark: '#000000',
+  },
+  numbers: ['#1d4ed8', '#15803d', '#b91c1c', '#6b21a8', '#7f1d1d', '#155e75', '#000000', '#4b5563'],
+  glyphs: { mine: '💣', flag: '🚩' },
+  led: { background: '#000000', digits: '#dc2626', border: '#475569' },
+  board: '#94a3b8',
+  probability: { safeHue: 120, mineHue: 0 },
+};
+
+export const BUILTIN_THEMES: Theme[] = [
+  CLASSIC_THEME,
+  {
+    id: 'dark',
+    name: '深色',
+    cell: {
+      hidden: '#334155',
+      light: '#64748b',
+      shade: '#0f172a',
+      revealed: '#1e293b',
+      grid: '#334155',
+      exploded: '#b91c1c',
+      mark: '#e2e8f0',
+    },
+    numbers: ['#60a5fa', '#4ade80', '#f87171', '#c084fc', '#fb923c', '#22d3ee', '#e2e8f0', '#94a3b8'],
+    glyphs: { mine: '💣', flag: '🚩' },
+    led: { background: '#020617', digits: '#f87171', border: '#334155' },
+    board: '#0f172a',
+    probability: { safeHue: 120, mineHue: 0 },
+  },
+  {
+    id: 'high-contrast',
+    name: '高对比度',
+    cell: {
+      hidden: '#404040',
+      light: '#ffffff',
+      shade: '#000000',
+      revealed: '#ffffff',
+      grid: '#000000',
+      exploded: '#ff0000',
+      mark: '#ffff00',
+    },
+    numbers: ['#0000ff', '#006400', '#c00000', '#000080', '#800000', '#006060', '#000000', '#505050'],
+    glyphs: { mine: { path: MINE_PATH, color: '#000000' }, flag: { path: FLAG_PATH, color: '#ffff00' } },
+    led: { background: '#000000', digits: '#ffff00', border: '#ffffff' },
+    board: '#000000',
+    probability: { safeHue: 120, mineHue: 0 },
+  },
+  {
+    // Okabe-Ito colours: no two numbers differ only in red against green,
+    // and the probability overlay runs from blue to orange
+    id: 'deuteranopia',
+    name: '色弱友好（红绿）',
+    cell: {
+      hidden: '#cbd5e1',
+      light: '#ffffff',
+      shade: '#475569',
+      revealed: '#e2e8f0',
+      grid: '#cbd5e1',
+      exploded: '#e69f00',
+      mark: '#000000',
+    },
+    numbers: ['#0072b2', '#d55e00', '#6a3d9a', '#002b5c', '#8a4b00', '#007a87', '#000000', '#5f5f5f'],
+    glyphs: { mine: { path: MINE_PATH, color: '#000000' }, flag: { path: FLAG_PATH, color: '#0072b2' } },
+    led: { background: '#000000', digits: '#e69f00', border: '#475569' },
+    board: '#94a3b8',
+    probability: { safeHue: 220, mineHue: 400 },
+  },
+];
+
+export const DEFAULT_THEME_ID = CLASSIC_THEME.id;
+
+// Imported themes get their own ids, so they never replace a built-in one
+export const CUSTOM_THEME_PREFIX = 'custom:';
+
+// Colour of the probability overlay for a mine probability between 0 and 1
+export const probabilityTint = (theme: Theme, p: number) => {
+  const { safeHue, mineHue } = theme.probability;
+  return `hsla(${Math.round(safeHue + (mineHue - safeHue) * p)}, 85%, 45%, 0.45)`;
+};
+
+// The CSS custom properties the DOM board is styled with
+export const themeVariables = (theme: Theme): Record<string, string> => ({
+  '--ms-hidden': theme.cell.hidden,
+  '--ms-light': theme.cell.light,
+  '--ms-shade': theme.cell.shade,
+  '--ms-revealed': theme.cell.revealed,
+  '--ms-grid': theme.cell.grid,
+  '--ms-exploded': theme.cell.exploded,
+  '--ms-mark': theme.cell.mark,
+  ...Object.fromEntries(theme.numbers.map((color, i) => [`--ms-n${i + 1}`, color])),
+  '--ms-led-bg': theme.led.background,
+  '--ms-led-digits': theme.led.digits,
+  '--ms-led-border': theme.led.border,
+  '--ms-board': theme.board,
+});
+
+// --- JSON import ---
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+// Path data only: commands, numbers and separators, so nothing but a shape can get in
+const PATH_PATTERN = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]+$/;
+const MAX_PATH_LENGTH = 4000;
+const MAX_TEXT_GLYPH = 4; // Code points, enough for emoji with a variation selector
+const MAX_NAME_LENGTH = 30;
+
+const readColor = (value: unknown, fallback: string, field: string): string => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+    throw new Error(`${field} 不是有效的颜色，请使用 #rgb、#rrggbb 或带透明度的 #rrggbbaa 格式。`);
+  }
+  return value.toLowerCase();
+};
+
+const readGlyph = (value: unknown, fallback: ThemeGlyph, field: string): ThemeGlyph => {
+  if (value === undefined) return fallback;
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (length === 0 || length > MAX_TEXT_GLYPH) throw new Error(`${field} 的文字图案应为 1 到 ${MAX_TEXT_GLYPH} 个字符。`);
+    return value;
+  }
+  const glyph = isRecord(value) ? value : {};
+  const path = glyph.path;
+  if (typeof path !== 'string' || !path.trim() || path.length > MAX_PATH_LENGTH || !PATH_PATTERN.test(path)) {
+    throw new Error(`${field} 应为文字，或 { "path": SVG 路径, "color": 颜色 }。路径只能包含路径命令和数字。`);
+  }
+  return { path: path.trim(), color: readColor(glyph.color, '#000000', `${field}.color`) };
+};
+
+const readHue = (value: unknown, fallback: number, field: string): number => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || Math.abs(value) > 720) {
+    throw new Error(`${field} 应为 -720 到 720 之间的色相角度。`);
+  }
+  return value;
+};
+
+// Reads a theme file. Fields left out are taken from the classic theme,
+// so a file only needs the colours it changes; throws with a readable message otherwise.
+export const parseTheme = (text: string): Theme => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('主题文件不是有效的 JSON。');
+  }
+  if (!isRecord(data)) throw new Error('主题文件格式不正确。');
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) throw new Error(`主题需要一个 1 到 ${MAX_NAME_LENGTH} 个字符的 name。`);
+
+  const base = CLASSIC_THEME;
+  const cell = isRecord(data.cell) ? data.cell : {};
+  const glyphs = isRecord(data.glyphs) ? data.glyphs : {};
+  const led = isRecord(data.led) ? data.led : {};
+  const probability = isRecord(data.probability) ? data.probability : {};
+
+  let numbers = base.numbers;
+  if (data.numbers !== undefined) {
+    if (!Array.isArray(data.numbers) || data.numbers.length !== 8) throw new Error('numbers 应为 8 个颜色，依次对应数字 1 到 8。');
+    numbers = data.numbers.map((color, i) => readColor(color, base.numbers[i], `numbers[${i}]`));
+  }
+
+  return {
+    id: CUSTOM_THEME_PREFIX + name,
+    name,
+    cell: {
+      hidden: readColor(cell.hidden, base.cell.hidden, 'cell.hidden'),
+      light: readColor(cell.light, base.cell.light, 'cell.light'),
+      shade: readColor(cell.shade, base.cell.shade, 'cell.shade'),
+      revealed: readColor(cell.revealed, base.cell.revealed, 'cell.revealed'),
+      grid: readColor(cell.grid, base.cell.grid, 'cell.grid'),
+      exploded: readColor(cell.exploded, base.cell.exploded, 'cell.exploded'),
+      mark: readColor(cell.mark, base.cell.mark, 'cell.mark'),
+    },
+    numbers,
+    glyphs: {
+      mine: readGlyph(glyphs.mine, base.glyphs.mine, 'glyphs.mine'),
+      flag: readGlyph(glyphs.flag, base.glyphs.flag, 'glyphs.flag'),
+    },
+    led: {
+      background: readColor(led.background, base.led.background, 'led.background'),
+      digits: readColor(led.digits, base.led.digits, 'led.digits'),
+      border: readColor(led.border, base.led.border, 'led.border'),
+    },
+    board: readColor(data.board, base.board, 'board'),
+    probability: {
+      safeHue: readHue(probability.safeHue, base.probability.safeHue, 'probability.safeHue'),
+      mineHue: readHue(probability.mineHue, base.probability.mineHue, 'probability.mineHue'),
+    },
+  };
+};
+
+// The file parseTheme reads; the id is left out, as it comes from the name
+export const serializeTheme = (theme: Theme): string => {
+  const { id, ...rest } = theme;
+  return JSON.stringify(rest, null, 2);
+};
+
+export const downloadTheme = (theme: Theme) => {
+  const blob = new Blob([serializeTheme(theme)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `minesweeper-theme-${theme.name.replace(/[\\/:*?"<>|\s]+/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
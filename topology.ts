@@ -0,0 +1,106 @@
+import { TopologyId } from './types';
+
+// Board topologies: which cells count as a cell's neighbours.
+// Everything that walks the neighbourhood (numbers, flood reveal, chording, the solver,
+// 3BV) goes through a topology, so variant modes only need a new entry here.
+
+export type NeighborVisitor = (row: number, col: number) => void;
+
+export interface Topology {
+  id: TopologyId;
+  name: string; // Shown in the board-type selector
+  description: string; // One sentence on the neighbourhood, shown in the UI and sent to the AI
+  layout: 'grid' | 'hex'; // How App draws the board: a plain grid, or odd rows shifted half a cell
+  neighbors: (rows: number, cols: number, row: number, col: number) => [number, number][];
+  // Same cells as neighbors, without allocating: for the hot loops of huge boards (see fastBoard.ts)
+  forEachNeighbor: (rows: number, cols: number, row: number, col: number, visit: NeighborVisitor) => void;
+}
+
+type NeighborWalker = Topology['forEachNeighbor'];
+
+// Neighbourhood given by fixed offsets, cut off at the board edges
+const offsetWalker = (offsets: [number, number][]): NeighborWalker =>
+  (rows, cols, row, col, visit) => {
+    for (const [dr, dc] of offsets) {
+      const nr = row + dr;
+      const nc = col + dc;
+      if (nr >= 0 && nr < rows && nc >= 0 && nc < cols) visit(nr, nc);
+    }
+  };
+
+const collectNeighbors = (walk: NeighborWalker) =>
+  (rows: number, cols: number, row: number, col: number): [number, number][] => {
+    const neighbors: [number, number][] = [];
+    walk(rows, cols, row, col, (nr, nc) => neighbors.push([nr, nc]));
+    return neighbors;
+  };
+
+const KING_OFFSETS: [number, number][] = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 1],
+  [1, -1], [1, 0], [1, 1],
+];
+
+const KNIGHT_OFFSETS: [number, number][] = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+  [1, -2], [1, 2], [2, -1], [2, 1],
+];
+
+// "Odd-r" hex layout: odd rows sit half a cell to the right, so the diagonal neighbours
+// above and below lean left on even rows and right on odd rows
+const HEX_EVEN_ROW = offsetWalker([[-1, -1], [-1, 0], [0, -1], [0, 1], [1, -1], [1, 0]]);
+const HEX_ODD_ROW = offsetWalker([[-1, 0], [-1, 1], [0, -1], [0, 1], [1, 0], [1, 1]]);
+const hexWalker: NeighborWalker = (rows, cols, row, col, visit) =>
+  (row % 2 === 0 ? HEX_EVEN_ROW : HEX_ODD_ROW)(rows, cols, row, col, visit);
+
+// Square neighbourhood with opposite edges joined (the board minimum of 5 keeps them distinct)
+const torusWalker: NeighborWalker = (rows, cols, row, col, visit) => {
+  for (const [dr, dc] of KING_OFFSETS) visit((row + dr + rows) % rows, (col + dc + cols) % cols);
+};
+
+const squareWalker = offsetWalker(KING_OFFSETS);
+const knightWalker = offsetWalker(KNIGHT_OFFSETS);
+
+export const TOPOLOGIES: Record<TopologyId, Topology> = {
+  square: {
+    id: 'square',
+    name: '方格',
+    description: '每个数字表示周围 8 个格子中的地雷数。',
+    layout: 'grid',
+    neighbors: collectNeighbors(squareWalker),
+    forEachNeighbor: squareWalker,
+  },
+  hex: {
+    id: 'hex',
+    name: '六边形',
+    description: '六边形棋盘：奇数行（从 0 开始计）向右错开半格，每个数字表示相邻 6 个格子中的地雷数。',
+    layout: 'hex',
+    neighbors: collectNeighbors(hexWalker),
+    forEachNeighbor: hexWalker,
+  },
+  torus: {
+    id: 'torus',
+    name: '环面',
+    description: '环面棋盘：上下边、左右边相连，边缘格子的邻居会绕到对边，每个数字仍表示周围 8 个格子中的地雷数。',
+    layout: 'grid',
+    neighbors: collectNeighbors(torusWalker),
+    forEachNeighbor: torusWalker,
+  },
+  knight: {
+    id: 'knight',
+    name: '马步',
+    description: '马步棋盘：每个数字表示按国际象棋马的走法（"日"字）能到达的 8 个格子中的地雷数。',
+    layout: 'grid',
+    neighbors: collectNeighbors(knightWalker),
+    forEachNeighbor: knightWalker,
+  },
+};
+
+export const DEFAULT_TOPOLOGY: TopologyId = 'square';
+
+export const isTopologyId = (value: unknown): value is TopologyId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TOPOLOGIES, value);
+
+// Unknown or missing ids (e.g. data saved before topologies existed) fall back to the square grid
+export const getTopology = (id: TopologyId | undefined = DEFAULT_TOPOLOGY): Topology =>
+  isTopologyId(id) ? TOPOLOGIES[id] : TOPOLOGIES[DEFAULT_TOPOLOGY];
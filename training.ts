@@ -0,0 +1,117 @@
+import { CellData, CellRef, CellState, Difficulty, GameStatus } from './types';
+import { MinesweeperGame } from './game';
+import { Deduction, DeductionRule, SolverResult, cellName, describeDeduction, solveBoard } from './solver';
+import { Rng } from './random';
+
+// Logic drills: positions taken from real games, where the player has to find every cell
+// the revealed numbers prove safe or a mine. Positions come from playing seeded boards with
+// the solver's certain moves only, and are graded by the hardest rule their answers need.
+
+export type DrillLevel = 'simple' | 'subset' | 'global';
+
+export const DRILL_LEVELS: Record<DrillLevel, { name: string; description: string }> = {
+  simple: { name: '简单', description: '每个答案只看一个数字就能确定。' },
+  subset: { name: '子集', description: '需要比较两个数字共有的邻格。' },
+  global: { name: '全局', description: '需要枚举多个数字的所有布雷方案，或结合总雷数。' },
+};
+
+const LEVEL_OF_RULE: Record<DeductionRule, DrillLevel> = {
+  single: 'simple',
+  subset: 'subset',
+  enumeration: 'global',
+};
+
+const LEVEL_ORDER: DrillLevel[] = ['simple', 'subset', 'global'];
+
+// More answers than this turns a drill into busywork
+const MAX_ANSWERS = 10;
+const MAX_GAMES = 40;
+
+export interface Drill {
+  level: DrillLevel;
+  difficulty: Difficulty;
+  board: CellData[][]; // The position: revealed numbers and the mines already found flagged
+  deductions: Deduction[]; // Every cell the position proves, safe or mine
+}
+
+export type DrillPick = 'safe' | 'mine';
+
+export interface DrillFeedback {
+  ref: CellRef;
+  explanation: string;
+}
+
+export interface DrillGrade {
+  correct: CellRef[];
+  wrong: DrillFeedback[]; // Picked, but not proven that way
+  missed: DrillFeedback[]; // Proven, but not picked
+}
+
+// The hardest rule among the deductions, or null when nothing can be proven
+export const drillLevelOf = (result: SolverResult): DrillLevel | null => {
+  const levels = [...result.safe, ...result.mines].map(d => LEVEL_ORDER.indexOf(LEVEL_OF_RULE[d.rule]));
+  return levels.length > 0 ? LEVEL_ORDER[Math.max(...levels)] : null;
+};
+
+// Plays seeded games with certain moves only and returns one of the positions of the wanted level,
+// or null when none turned up (hard levels on small boards are rare). Mines found in earlier
+// positions are flagged, as a player would have, so only the new deductions are asked for.
+export const generateDrill = (level: DrillLevel, difficulty: Difficulty, rng: Rng = Math.random): Drill | null => {
+  const candidates: Drill[] = [];
+  for (let games = 0; games < MAX_GAMES && candidates.length === 0; games++) {
+    const game = new MinesweeperGame({ difficulty, seed: Math.floor(rng() * 0x100000000) });
+    game.reveal(Math.floor(difficulty.rows / 2), Math.floor(difficulty.cols / 2));
+
+    // The opening position is skipped: every game has one and it teaches nothing
+    for (let step = 0; game.status === GameStatus.PLAYING; step++) {
+      const result = solveBoard(game.board, difficulty.mines, difficulty.topology);
+      if (result.safe.length === 0) break; // Only a guess would go on
+      const fresh: SolverResult = {
+        safe: result.safe,
+        mines: result.mines.filter(d => game.board[d.row][d.col].state !== CellState.FLAGGED),
+      };
+      const deductions = [...fresh.safe, ...fresh.mines];
+      if (step > 0 && deductions.length <= MAX_ANSWERS && drillLevelOf(fresh) === level) {
+        candidates.push({ level, difficulty, board: game.board, deductions });
+      }
+      for (const d of fresh.mines) game.flag(d.row, d.col);
+      for (const d of fresh.safe) game.reveal(d.row, d.col);
+    }
+  }
+  return candidates.length > 0 ? candidates[Math.floor(rng() * candidates.length)] : null;
+};
+
+// Picks are keyed by "row,col"
+export const drillKey = (ref: CellRef) => `${ref.row},${ref.col}`;
+
+// Checks the player's picks against the solver. Every mistake comes with the constraint that explains it.
+export const gradeDrill = (drill: Drill, picks: Map<string, DrillPick>): DrillGrade => {
+  const { board, difficulty } = drill;
+  const proven = new Map(drill.deductions.map(d => [drillKey(d), d]));
+  const grade: DrillGrade = { correct: [], wrong: [], missed: [] };
+
+  for (const [cellKey, pick] of picks) {
+    const [row, col] = cellKey.split(',').map(Number);
+    const d = proven.get(cellKey);
+    if (d && d.isMine === (pick === 'mine')) {
+      grade.correct.push({ row, col });
+    } else if (d) {
+      grade.wrong.push({ ref: { row, col }, explanation: describeDeduction(board, d, difficulty.mines) });
+    } else {
+      grade.wrong.push({
+        ref: { row, col },
+        explanation: `现有的数字和总雷数都无法确定 ${cellName({ row, col })} 是否有雷，只能猜。`,
+      });
+    }
+  }
+  for (const d of drill.deductions) {
+    if (!picks.has(drillKey(d))) grade.missed.push({ ref: d, explanation: describeDeduction(board, d, difficulty.mines) });
+  }
+  return grade;
+};
+
+// The position with the player's mine picks shown as flags
+export const drillView = (drill: Drill, picks: Map<string, DrillPick>): CellData[][] =>
+  drill.board.map(row => row.map(cell =>
+    picks.get(drillKey(cell)) === 'mine' ? { ...cell, state: CellState.FLAGGED } : cell
+  ));
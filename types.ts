@@ -17,6 +17,11 @@ export enum GameStatus {
   LOST = 'LOST'
 }
 
+export interface CellRef {
+  row: number;
+  col: number;
+}
+
 export interface CellData {
   row: number;
   col: number;
@@ -25,11 +30,30 @@ export interface CellData {
   isExploded?: boolean; // True if this specific mine caused the loss
 }
 
+// Neighbourhood shape of the board, see topology.ts
+export type TopologyId = 'square' | 'hex' | 'torus' | 'knight';
+
 export interface Difficulty {
   name: string;
   rows: number;
   cols: number;
   mines: number;
+  topology?: TopologyId; // Square grid when absent
+}
+
+// Backends that can answer hint requests, see services/hintProvider.ts
+export type HintProviderId = 'gemini' | 'openai' | 'mock';
+
+export type HintSource = HintProviderId | 'solver';
+
+// One suggested move; a hint can carry several, best first
+export interface HintMove {
+  row: number;
+  col: number;
+  action: 'reveal' | 'flag';
+  certain: boolean; // Proven by the revealed numbers
+  probability: number; // Chance (0-1) that the move is right: 1 when certain
+  sources: CellRef[]; // Revealed numbers that justify it
 }
 
 export interface AIHint {
@@ -37,4 +61,54 @@ export interface AIHint {
   col: number;
   action: 'reveal' | 'flag';
   reasoning: string;
+  source?: HintSource;
+  certain?: boolean; // True when the move is logically proven rather than a guess
+  confidence?: number; // Probability (0-1) that the suggested move is right
+  verified?: boolean; // A model hint that passed the board checks in hintValidation
+  attempts?: number; // Model answers it took to get a valid hint
+  moves?: HintMove[]; // Every move worth showing, ranked, led by the hint's own move
+}
+
+// What a hint provider sees: the visible board only
+export interface HintRequest {
+  board: CellData[][];
+  minesLeft: number;
+  totalMines: number;
+  topology?: TopologyId;
+  corrections?: string[]; // Why earlier answers were rejected, fed back on a retry
+}
+
+// One turn of a conversation with the coach
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// What the coach sees: the visible board, the latest moves and the conversation so far
+export interface CoachRequest {
+  board: CellData[][];
+  minesLeft: number;
+  totalMines: number;
+  topology?: TopologyId;
+  recentMoves: string[]; // Oldest first, already described, e.g. "点开 (行 3, 列 4)"
+  messages: ChatMessage[]; // Ends with the player's question
+}
+
+export interface HintSettings {
+  provider: HintProviderId;
+  timeoutMs: number; // Per answer
+  maxAttempts: number; // Answers to ask for before giving up on invalid hints
+  gemini: { model: string; apiKey: string }; // Empty key: the one built in via vite.config.ts
+  openai: { model: string; endpoint: string; apiKey: string }; // Any OpenAI-compatible server, e.g. Ollama
+}
+
+export interface HintProvider {
+  id: HintProviderId;
+  name: string;
+  // Resolves to null when the answer is unusable; rejects on transport errors and aborts
+  getHint: (request: HintRequest, settings: HintSettings, signal: AbortSignal) => Promise<AIHint | null>;
+  // Free-text answer to a prompt, e.g. the post-game analysis; null when the answer is empty
+  explain: (prompt: string, settings: HintSettings, signal: AbortSignal) => Promise<string | null>;
+  // Coach answer, passed to onText piece by piece as it arrives; resolves when the answer is complete
+  streamChat: (request: CoachRequest, settings: HintSettings, signal: AbortSignal, onText: (text: string) => void) => Promise<void>;
 }